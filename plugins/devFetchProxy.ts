@@ -0,0 +1,108 @@
+import type { Plugin } from "vite";
+import type { IncomingMessage } from "http";
+
+interface ProxyRequest {
+  url: string;
+  headers?: { name: string; value: string }[];
+  cookies?: string;
+  basicAuth?: { username: string; password: string };
+}
+
+const readJson = (req: IncomingMessage): Promise<ProxyRequest> =>
+  new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(body));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+
+const isLoopback = (address = ""): boolean =>
+  address === "::1" || address.startsWith("127.") || address.startsWith("::ffff:127.");
+
+const LOOPBACK_HOSTS = new Set(["localhost", "127.0.0.1", "[::1]"]);
+
+// The dev server listens on every interface, and this endpoint fetches any URL with caller-chosen
+// credentials, so only pages served to this machine by this server may use it.
+const rejectReason = (req: IncomingMessage): string | undefined => {
+  if (!isLoopback(req.socket.remoteAddress)) return "Only available from this machine";
+  const host = req.headers.host ?? "";
+  if (!LOOPBACK_HOSTS.has(host.replace(/:\d+$/, ""))) return "Unexpected Host header";
+  const origin = req.headers.origin;
+  if (origin !== undefined) {
+    let originHost: string | undefined;
+    try {
+      originHost = new URL(origin).host;
+    } catch {
+      // "null" and other opaque origins are never this server.
+    }
+    if (originHost !== host) return "Cross-origin requests are not allowed";
+  }
+  return undefined;
+};
+
+// Fetches pages on behalf of the browser during `vite dev`, so staging sites can be
+// scraped without CORS and with their own headers, cookies or basic auth.
+export const devFetchProxy = (path = "/__fetch"): Plugin => ({
+  name: "dev-fetch-proxy",
+  apply: "serve",
+  configureServer(server) {
+    server.middlewares.use(path, async (req, res) => {
+      if (req.method !== "POST") {
+        res.statusCode = 405;
+        res.end("Method not allowed");
+        return;
+      }
+      const rejected = rejectReason(req);
+      if (rejected) {
+        res.statusCode = 403;
+        res.end(rejected);
+        return;
+      }
+      // A JSON body cannot be posted cross-site without a preflight, which this endpoint never approves.
+      if (!req.headers["content-type"]?.toLowerCase().startsWith("application/json")) {
+        res.statusCode = 415;
+        res.end("Expected Content-Type: application/json");
+        return;
+      }
+
+      let request: ProxyRequest;
+      try {
+        request = await readJson(req);
+        const protocol = new URL(request.url).protocol;
+        if (protocol !== "http:" && protocol !== "https:") throw new Error(`Unsupported protocol ${protocol}`);
+      } catch (error) {
+        res.statusCode = 400;
+        res.end(`Invalid proxy request: ${(error as Error).message}`);
+        return;
+      }
+
+      const headers: Record<string, string> = { "user-agent": "route-match-bot dev proxy" };
+      for (const { name, value } of request.headers ?? []) {
+        headers[name.toLowerCase()] = value;
+      }
+      if (request.cookies) headers.cookie = request.cookies;
+      if (request.basicAuth) {
+        const { username, password } = request.basicAuth;
+        headers.authorization = `Basic ${Buffer.from(`${username}:${password}`).toString("base64")}`;
+      }
+
+      try {
+        const upstream = await fetch(request.url, { headers, redirect: "follow" });
+        res.statusCode = upstream.status;
+        res.setHeader("content-type", upstream.headers.get("content-type") ?? "text/html");
+        res.setHeader("x-final-url", upstream.url);
+        // Passed through as bytes, so binary files such as gzipped sitemaps arrive intact.
+        res.end(Buffer.from(await upstream.arrayBuffer()));
+      } catch (error) {
+        res.statusCode = 502;
+        res.end(`Upstream request failed: ${(error as Error).message}`);
+      }
+    });
+  },
+});
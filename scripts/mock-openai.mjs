@@ -0,0 +1,251 @@
+#!/usr/bin/env node
+// Stand-in for the OpenAI API, for development, CI and offline work. It serves
+// /v1/embeddings and /v1/chat/completions (plus the Azure deployment path) with
+// deterministic output, and can add latency and inject 429/500 responses.
+//
+//   npm run mock:openai -- --port 8787 --latency 50-200 --rate-limit-every 5 --error-every 7
+//
+// Point the app at it with the OpenAI-compatible provider and base URL
+// http://localhost:8787/v1, or run the dev server with VITE_OPENAI_BASE_URL set to
+// that URL to route the OpenAI provider there. Settings can be changed while it runs
+// with POST /__mock/config, and GET /__mock/stats reports what it has served.
+
+import { createServer } from "node:http";
+import { parseArgs } from "node:util";
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: "string", default: process.env.MOCK_OPENAI_PORT ?? "8787" },
+    latency: { type: "string", default: "0" },
+    "rate-limit-every": { type: "string", default: "0" },
+    "error-every": { type: "string", default: "0" },
+    "retry-after-ms": { type: "string", default: "1000" },
+    dimensions: { type: "string", default: "768" },
+    "max-input-tokens": { type: "string", default: "8191" },
+    "api-key": { type: "string", default: process.env.MOCK_OPENAI_API_KEY ?? "" },
+  },
+});
+
+const parseLatency = (value) => {
+  const [min, max = min] = String(value).split("-").map(Number);
+  return { min, max };
+};
+
+const config = {
+  latency: parseLatency(args.latency),
+  // Every Nth request to a model endpoint fails; 0 turns the injection off.
+  rateLimitEvery: Number(args["rate-limit-every"]),
+  errorEvery: Number(args["error-every"]),
+  retryAfterMs: Number(args["retry-after-ms"]),
+  dimensions: Number(args.dimensions),
+  maxInputTokens: Number(args["max-input-tokens"]),
+  // When set, requests must carry it as a bearer token or Azure api-key header.
+  apiKey: args["api-key"],
+};
+
+const stats = { requests: 0, embeddings: 0, completions: 0, inputs: 0, tokens: 0, injected429: 0, injected500: 0 };
+
+const MODEL_DIMENSIONS = {
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  "text-embedding-ada-002": 1536,
+};
+
+const estimateTokens = (text) => Math.ceil(text.length / 4);
+
+// 32-bit FNV-1a, the same hashing the app's demo embedder uses.
+const hashToken = (token) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Hashed bag-of-words, so texts sharing words score higher and identical texts always match.
+const embed = (text, dimensions) => {
+  const vector = new Array(dimensions).fill(0);
+  for (const token of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    const hash = hashToken(token);
+    vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+};
+
+const answer = (messages) => {
+  const question = [...messages].reverse().find((message) => message.role === "user")?.content ?? "";
+  const text = Array.isArray(question) ? question.map((part) => part.text ?? "").join(" ") : String(question);
+  return `Here is what I found about ${text.trim() || "your question"}. This is a deterministic reply from the mock OpenAI server.`;
+};
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const readJson = (req) =>
+  new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, { "content-type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res, status, message, code, headers) =>
+  send(res, status, { error: { message, type: code, code, param: null } }, headers);
+
+const isAuthorized = (req) => {
+  if (!config.apiKey) return true;
+  const bearer = req.headers.authorization?.replace(/^Bearer\s+/i, "");
+  return bearer === config.apiKey || req.headers["api-key"] === config.apiKey;
+};
+
+/** Applies latency and error injection shared by the model endpoints; returns false once it has answered. */
+const simulate = async (req, res) => {
+  const { min, max } = config.latency;
+  if (max > 0) await sleep(min + Math.random() * (max - min));
+
+  if (!isAuthorized(req)) {
+    sendError(res, 401, "Incorrect API key provided.", "invalid_api_key");
+    return false;
+  }
+  const count = ++stats.requests;
+  if (config.rateLimitEvery > 0 && count % config.rateLimitEvery === 0) {
+    stats.injected429++;
+    sendError(res, 429, "Rate limit reached (injected by mock server).", "rate_limit_exceeded", {
+      "retry-after-ms": String(config.retryAfterMs),
+    });
+    return false;
+  }
+  if (config.errorEvery > 0 && count % config.errorEvery === 0) {
+    stats.injected500++;
+    sendError(res, 500, "The server had an error processing your request (injected by mock server).", "server_error");
+    return false;
+  }
+  return true;
+};
+
+const handleEmbeddings = async (req, res, deployment) => {
+  const body = await readJson(req);
+  if (!(await simulate(req, res))) return;
+
+  const inputs = Array.isArray(body.input) ? body.input : [body.input];
+  if (inputs.length === 0 || inputs.some((input) => typeof input !== "string")) {
+    sendError(res, 400, "'input' must be a string or an array of strings.", "invalid_request_error");
+    return;
+  }
+  const tooLong = inputs.findIndex((input) => estimateTokens(input) > config.maxInputTokens);
+  if (tooLong >= 0) {
+    sendError(
+      res,
+      400,
+      `This model's maximum context length is ${config.maxInputTokens} tokens, however input ${tooLong} is longer.`,
+      "context_length_exceeded"
+    );
+    return;
+  }
+
+  const model = body.model ?? deployment ?? "mock-embedding";
+  const dimensions = Number(body.dimensions) || MODEL_DIMENSIONS[model] || config.dimensions;
+  const tokens = inputs.reduce((sum, input) => sum + estimateTokens(input), 0);
+  stats.embeddings++;
+  stats.inputs += inputs.length;
+  stats.tokens += tokens;
+
+  send(res, 200, {
+    object: "list",
+    data: inputs.map((input, index) => ({ object: "embedding", index, embedding: embed(input, dimensions) })),
+    model,
+    usage: { prompt_tokens: tokens, total_tokens: tokens },
+  });
+};
+
+const handleCompletions = async (req, res) => {
+  const body = await readJson(req);
+  if (!(await simulate(req, res))) return;
+
+  if (!Array.isArray(body.messages) || body.messages.length === 0) {
+    sendError(res, 400, "'messages' must be a non-empty array.", "invalid_request_error");
+    return;
+  }
+  const content = answer(body.messages);
+  const promptTokens = body.messages.reduce((sum, message) => sum + estimateTokens(JSON.stringify(message.content ?? "")), 0);
+  const completionTokens = estimateTokens(content);
+  stats.completions++;
+  stats.tokens += promptTokens + completionTokens;
+
+  send(res, 200, {
+    id: `chatcmpl-mock-${hashToken(content).toString(16)}`,
+    object: "chat.completion",
+    created: 0,
+    model: body.model ?? "mock-chat",
+    choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+    usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+  });
+};
+
+const handleConfig = async (req, res) => {
+  const patch = await readJson(req);
+  if (patch.latency !== undefined) config.latency = parseLatency(patch.latency);
+  for (const key of ["rateLimitEvery", "errorEvery", "retryAfterMs", "dimensions", "maxInputTokens"]) {
+    if (patch[key] !== undefined) config[key] = Number(patch[key]);
+  }
+  if (patch.apiKey !== undefined) config.apiKey = String(patch.apiKey);
+  if (patch.resetStats) Object.keys(stats).forEach((key) => (stats[key] = 0));
+  send(res, 200, config);
+};
+
+const server = createServer(async (req, res) => {
+  // The app calls the server straight from the browser, so every response allows any origin.
+  res.setHeader("access-control-allow-origin", "*");
+  res.setHeader("access-control-allow-headers", "authorization, api-key, content-type");
+  res.setHeader("access-control-allow-methods", "GET, POST, OPTIONS");
+  res.setHeader("access-control-expose-headers", "retry-after-ms, retry-after");
+  if (req.method === "OPTIONS") {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const { pathname } = new URL(req.url ?? "/", "http://localhost");
+  const deployment = pathname.match(/^\/openai\/deployments\/([^/]+)\/embeddings$/)?.[1];
+
+  try {
+    if (req.method === "POST" && (pathname === "/v1/embeddings" || deployment)) {
+      await handleEmbeddings(req, res, deployment && decodeURIComponent(deployment));
+    } else if (req.method === "POST" && pathname === "/v1/chat/completions") {
+      await handleCompletions(req, res);
+    } else if (req.method === "GET" && pathname === "/v1/models") {
+      send(res, 200, {
+        object: "list",
+        data: Object.keys(MODEL_DIMENSIONS).map((id) => ({ id, object: "model", owned_by: "mock" })),
+      });
+    } else if (req.method === "GET" && pathname === "/__mock/stats") {
+      send(res, 200, stats);
+    } else if (req.method === "POST" && pathname === "/__mock/config") {
+      await handleConfig(req, res);
+    } else {
+      sendError(res, 404, `Unknown route ${req.method} ${pathname}`, "not_found");
+    }
+  } catch (error) {
+    sendError(res, 400, `Invalid request: ${error.message}`, "invalid_request_error");
+  }
+});
+
+server.listen(Number(args.port), () => {
+  console.log(`Mock OpenAI server listening on http://localhost:${args.port}/v1`);
+});
+
+const shutdown = () => server.close(() => process.exit(0));
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
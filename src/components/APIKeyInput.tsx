@@ -4,21 +4,67 @@ import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  EMBEDDING_PROVIDER_LABELS,
+  EmbeddingProviderKind,
+  EmbeddingSettings,
+  OPENAI_EMBEDDING_MODELS,
+} from '@/lib/embeddings';
 
 interface APIKeyInputProps {
   value: string;
   onChange: (value: string) => void;
+  provider: EmbeddingSettings;
+  onProviderChange: (value: EmbeddingSettings) => void;
+  demoMode: boolean;
+  onDemoModeChange: (value: boolean) => void;
   onSubmit: () => void;
-  isValid: boolean;
+  error: string | null;
+  /** Set while prompts are matched to responses, before the run starts. */
+  busy?: boolean;
+  /** Shown above the start button, e.g. the cost estimate for the run. */
+  children?: React.ReactNode;
 }
 
+const NumberField: React.FC<{ id: string; label: string; value: number; onChange: (value: number) => void }> = ({
+  id,
+  label,
+  value,
+  onChange,
+}) => (
+  <div className="space-y-2">
+    <Label htmlFor={id}>{label}</Label>
+    <Input id={id} type="number" min={1} value={value} onChange={(e) => onChange(Number(e.target.value))} />
+  </div>
+);
+
 export const APIKeyInput: React.FC<APIKeyInputProps> = ({
   value,
   onChange,
+  provider,
+  onProviderChange,
+  demoMode,
+  onDemoModeChange,
   onSubmit,
-  isValid,
+  error,
+  busy,
+  children,
 }) => {
   const [showKey, setShowKey] = useState(false);
+  const update = (patch: Partial<EmbeddingSettings>) => onProviderChange({ ...provider, ...patch });
+
+  const selectOpenAIModel = (id: string) => {
+    const model = OPENAI_EMBEDDING_MODELS.find(item => item.id === id)!;
+    update({ model: model.id, dimensions: model.dimensions, maxInputTokens: model.maxInputTokens });
+  };
 
   return (
     <Card className="p-6 bg-gradient-subtle border-primary/20">
@@ -27,50 +73,179 @@ export const APIKeyInput: React.FC<APIKeyInputProps> = ({
           <Key className="h-5 w-5 text-primary" />
         </div>
         <div>
-          <h3 className="font-semibold">OpenAI API Key Required</h3>
+          <h3 className="font-semibold">Embedding Provider</h3>
           <p className="text-sm text-muted-foreground">
-            Enter your OpenAI API key to generate embeddings for analysis
+            Choose the provider and model used to embed pages and GPT responses for this run
           </p>
         </div>
       </div>
 
       <div className="space-y-4">
-        <div>
-          <Label htmlFor="api-key">API Key</Label>
-          <div className="relative">
-            <Input
-              id="api-key"
-              type={showKey ? 'text' : 'password'}
-              value={value}
-              onChange={(e) => onChange(e.target.value)}
-              placeholder="sk-..."
-              className="pr-10"
-            />
-            <Button
-              type="button"
-              variant="ghost"
-              size="sm"
-              className="absolute right-0 top-0 h-full px-3"
-              onClick={() => setShowKey(!showKey)}
-            >
-              {showKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-            </Button>
-          </div>
+        <div className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+          <Label htmlFor="demo-mode" className="font-normal">
+            <span className="font-medium">Demo mode</span>
+            <span className="block text-xs text-muted-foreground mt-1">
+              Try the tool without an API. Scores come from a deterministic word-overlap embedder and are labelled as demo results.
+            </span>
+          </Label>
+          <Switch id="demo-mode" checked={demoMode} onCheckedChange={onDemoModeChange} />
         </div>
 
+        {!demoMode && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Provider</Label>
+                <Select value={provider.kind} onValueChange={(kind) => update({ kind: kind as EmbeddingProviderKind })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(EMBEDDING_PROVIDER_LABELS) as EmbeddingProviderKind[]).map(kind => (
+                      <SelectItem key={kind} value={kind}>{EMBEDDING_PROVIDER_LABELS[kind].label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{EMBEDDING_PROVIDER_LABELS[provider.kind].description}</p>
+              </div>
+
+              {provider.kind === 'openai' ? (
+                <div className="space-y-2">
+                  <Label>Model</Label>
+                  <Select
+                    value={OPENAI_EMBEDDING_MODELS.some(model => model.id === provider.model) ? provider.model : undefined}
+                    onValueChange={selectOpenAIModel}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a model" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {OPENAI_EMBEDDING_MODELS.map(model => (
+                        <SelectItem key={model.id} value={model.id}>
+                          {model.id} ({model.dimensions} dims)
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="embedding-model">Model</Label>
+                  <Input
+                    id="embedding-model"
+                    value={provider.model}
+                    onChange={(e) => update({ model: e.target.value })}
+                    placeholder={provider.kind === 'azure' ? 'text-embedding-3-small' : 'nomic-embed-text'}
+                  />
+                </div>
+              )}
+            </div>
+
+            {provider.kind === 'azure' && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2 md:col-span-3">
+                  <Label htmlFor="azure-endpoint">Endpoint</Label>
+                  <Input
+                    id="azure-endpoint"
+                    value={provider.azureEndpoint}
+                    onChange={(e) => update({ azureEndpoint: e.target.value })}
+                    placeholder="https://my-resource.openai.azure.com"
+                    className="font-mono text-xs"
+                  />
+                </div>
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="azure-deployment">Deployment</Label>
+                  <Input
+                    id="azure-deployment"
+                    value={provider.azureDeployment}
+                    onChange={(e) => update({ azureDeployment: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="azure-api-version">API version</Label>
+                  <Input
+                    id="azure-api-version"
+                    value={provider.azureApiVersion}
+                    onChange={(e) => update({ azureApiVersion: e.target.value })}
+                  />
+                </div>
+              </div>
+            )}
+
+            {provider.kind === 'openai-compatible' && (
+              <div className="space-y-2">
+                <Label htmlFor="embedding-base-url">Base URL</Label>
+                <Input
+                  id="embedding-base-url"
+                  value={provider.baseUrl}
+                  onChange={(e) => update({ baseUrl: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                  className="font-mono text-xs"
+                />
+              </div>
+            )}
+
+            {provider.kind !== 'openai' && (
+              <div className="grid grid-cols-2 gap-4">
+                <NumberField
+                  id="embedding-dimensions"
+                  label="Dimensions"
+                  value={provider.dimensions}
+                  onChange={(dimensions) => update({ dimensions })}
+                />
+                <NumberField
+                  id="embedding-max-tokens"
+                  label="Max input tokens"
+                  value={provider.maxInputTokens}
+                  onChange={(maxInputTokens) => update({ maxInputTokens })}
+                />
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="api-key">
+                API Key{provider.kind === 'openai-compatible' && ' (optional)'}
+              </Label>
+              <div className="relative">
+                <Input
+                  id="api-key"
+                  type={showKey ? 'text' : 'password'}
+                  value={value}
+                  onChange={(e) => onChange(e.target.value)}
+                  placeholder={provider.kind === 'openai' ? 'sk-...' : ''}
+                  className="pr-10"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="absolute right-0 top-0 h-full px-3"
+                  onClick={() => setShowKey(!showKey)}
+                >
+                  {showKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {children}
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
         <div className="flex items-center justify-between">
           <p className="text-xs text-muted-foreground">
             Your API key is only used for this session and never stored
           </p>
-          <Button 
-            onClick={onSubmit} 
-            disabled={!isValid}
+          <Button
+            onClick={onSubmit}
+            disabled={!!error || busy}
             size="sm"
           >
-            Start Analysis
+            {busy ? 'Matching prompts...' : 'Start Analysis'}
           </Button>
         </div>
       </div>
     </Card>
   );
-};
\ No newline at end of file
+};
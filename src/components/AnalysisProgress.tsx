@@ -2,6 +2,7 @@ import React from 'react';
 import { Card } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { CheckCircle, Clock, AlertCircle } from 'lucide-react';
+import { formatUsd, UsageSnapshot } from '@/lib/usage';
 
 interface AnalysisStep {
   id: string;
@@ -15,6 +16,7 @@ interface AnalysisProgressProps {
   currentStep: string;
   progress: number;
   isAnalyzing: boolean;
+  usage?: UsageSnapshot | null;
 }
 
 export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({
@@ -22,6 +24,7 @@ export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({
   currentStep,
   progress,
   isAnalyzing,
+  usage,
 }) => {
   const getStepIcon = (status: AnalysisStep['status']) => {
     switch (status) {
@@ -47,6 +50,13 @@ export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({
           <h3 className="text-lg font-semibold mb-2">Analysis in Progress</h3>
           <Progress value={progress} className="w-full" />
           <p className="text-sm text-muted-foreground mt-2">{progress}% Complete</p>
+          {usage && (
+            <p className="text-sm text-muted-foreground mt-1">
+              Embedding usage: {usage.tokens.toLocaleString()} tokens, {formatUsd(usage.costUsd)}
+              {usage.capUsd > 0 && ` of ${formatUsd(usage.capUsd)} cap`}
+              {usage.capReached && <span className="text-warning"> · cap reached, finishing pages in flight</span>}
+            </p>
+          )}
         </div>
 
         <div className="space-y-4">
@@ -2,7 +2,8 @@ import React from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Download, ExternalLink, TrendingUp, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Download, ExternalLink, TrendingUp, AlertTriangle, CheckCircle, FlaskConical, MapPin, XCircle } from 'lucide-react';
 import {
   BarChart,
   Bar,
@@ -15,6 +16,32 @@ import {
   Pie,
   Cell,
 } from 'recharts';
+import { ExtractionDetails } from '@/components/ExtractionDetails';
+import { ExtractionSummary } from '@/lib/scraper';
+import { PageStructureDetails } from '@/components/PageStructureDetails';
+import { PageDocument } from '@/lib/pageDocument';
+import { ScrapeFailure } from '@/lib/pageLoader';
+import { ScrapeFailuresPanel } from '@/components/ScrapeFailuresPanel';
+import { UnmatchedUrlsPanel } from '@/components/UnmatchedUrlsPanel';
+import { UncoveredRoutesPanel } from '@/components/UncoveredRoutesPanel';
+import { IntentCoveragePanel } from '@/components/IntentCoveragePanel';
+import { EmbeddingBatchStats } from '@/lib/embeddingBatcher';
+import { formatUsd, UsageSnapshot } from '@/lib/usage';
+import { EMBEDDING_ERROR_POLICIES, EmbeddingError, EmbeddingErrorKind } from '@/lib/embeddingErrors';
+import { MatchStatus } from '@/lib/promptMatching';
+import { ParsedRoute, PlaceRef } from '@/lib/gazetteer';
+import { UncoveredRoute } from '@/lib/reverseCoverage';
+
+/** How well a page answers one of the prompt variants generated for it. */
+export interface VariantScore {
+  intent: string;
+  prompt: string;
+  matchedPrompt?: string;
+  matchConfidence?: number;
+  matchStatus: MatchStatus;
+  /** NaN when no response matched this variant. */
+  similarity: number;
+}
 
 export interface AnalysisResult {
   url: string;
@@ -23,20 +50,104 @@ export interface AnalysisResult {
   gptAnswer: string;
   similarity: number;
   urlPattern?: string;
+  /** False when no GPT response matched any of the URL's prompts; `similarity` is then NaN. */
   matchFound?: boolean;
+  /** How well the page answers its own primary prompt, scored only for URLs with no matched response. */
+  promptSimilarity?: number;
+  /** The primary variant's response prompt, its match score and how the pairing was settled. */
+  matchedPrompt?: string;
+  matchConfidence?: number;
+  matchStatus?: MatchStatus;
+  runnerUpPrompts?: string[];
+  /** One entry per prompt variant; `similarity` is their mean over the variants that matched. */
+  variants?: VariantScore[];
+  route?: ParsedRoute;
+  /** Place slugs in the URL that the gazetteer does not know. */
+  unknownPlaces?: string[];
   idealPrompt?: string;
   intentType?: 'Informational' | 'Transactional' | 'Navigational' | 'Mixed';
   priorityScore?: number;
   keywordGaps?: string[];
   entityMismatch?: boolean;
   sentenceStructureIssue?: boolean;
+  trafficWeight?: number;
+  revenue?: number;
+  segment?: string;
+  owner?: string;
+  responseModel?: string;
+  responseDate?: string;
+  responseLocale?: string;
+  lastModified?: string;
+  extraction?: ExtractionSummary;
+  page?: PageDocument;
+  scrapeStatus?: 'ok' | 'failed';
+  failure?: ScrapeFailure;
+  embeddingProvider?: string;
+  embeddingModel?: string;
+  embeddingDimensions?: number;
+  embeddingError?: string;
+  embeddingErrorKind?: EmbeddingErrorKind;
+  demoMode?: boolean;
+  aggregation?: string;
+  chunkCount?: number;
+  bestChunk?: string;
 }
 
 interface AnalysisResultsProps {
   results: AnalysisResult[];
+  runSummary?: EmbeddingBatchStats | null;
+  usage?: UsageSnapshot | null;
+  /** The error that aborted the run, if one did. */
+  runError?: EmbeddingError | null;
+  errorLogSize?: number;
   onExportCSV: () => void;
+  onExportErrorLog?: () => void;
+  /** Set when the run was recorded. */
+  onExportCassette?: () => void;
+  /** Response prompts no URL matched, grouped by route. */
+  uncoveredRoutes?: UncoveredRoute[];
+  onExportUncoveredRoutes?: () => void;
+}
+
+interface ExportCardProps {
+  onExportCSV?: () => void;
+  errorLogSize: number;
+  onExportErrorLog?: () => void;
+  onExportCassette?: () => void;
 }
 
+const ExportCard: React.FC<ExportCardProps> = ({ onExportCSV, errorLogSize, onExportErrorLog, onExportCassette }) => (
+  <Card className="p-6 flex items-center justify-between">
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-muted-foreground">Export Results</p>
+      {onExportCSV && (
+        <div>
+          <Button onClick={onExportCSV} size="sm" className="gap-2">
+            <Download className="h-4 w-4" />
+            Download CSV
+          </Button>
+        </div>
+      )}
+      {errorLogSize > 0 && onExportErrorLog && (
+        <div>
+          <Button onClick={onExportErrorLog} size="sm" variant="outline" className="gap-2">
+            <Download className="h-4 w-4" />
+            Error log ({errorLogSize})
+          </Button>
+        </div>
+      )}
+      {onExportCassette && (
+        <div>
+          <Button onClick={onExportCassette} size="sm" variant="outline" className="gap-2">
+            <Download className="h-4 w-4" />
+            Cassette
+          </Button>
+        </div>
+      )}
+    </div>
+  </Card>
+);
+
 const getSimilarityLabel = (score: number) => {
   if (score >= 0.8) return { label: 'Excellent', color: 'success', icon: CheckCircle };
   if (score >= 0.7) return { label: 'Good', color: 'info', icon: TrendingUp };
@@ -44,33 +155,85 @@ const getSimilarityLabel = (score: number) => {
   return { label: 'Poor', color: 'destructive', icon: AlertTriangle };
 };
 
-const CHART_COLORS = ['hsl(var(--success))', 'hsl(var(--info))', 'hsl(var(--warning))', 'hsl(var(--destructive))'];
+const DemoModeBanner: React.FC = () => (
+  <Alert>
+    <FlaskConical className="h-4 w-4" />
+    <AlertTitle>Demo mode</AlertTitle>
+    <AlertDescription>
+      Scores come from a hashed bag-of-words embedder that only measures shared wording.
+      They are repeatable but are not semantic similarity; run with an embedding provider for real results.
+    </AlertDescription>
+  </Alert>
+);
 
-const extractRouteData = (url: string) => {
-  const match = url.match(/train-times\/([^\/]+)/);
-  if (!match) return { origin: 'Unknown', destination: 'Unknown', route: 'unknown' };
-  
-  const route = match[1].replace(/\//g, '').toLowerCase();
-  if (!route.includes('-to-')) return { origin: 'Unknown', destination: 'Unknown', route };
-  
-  const [origin, destination] = route.split('-to-');
-  return { 
-    origin: origin.charAt(0).toUpperCase() + origin.slice(1), 
-    destination: destination.charAt(0).toUpperCase() + destination.slice(1),
-    route 
-  };
+const RunStoppedBanner: React.FC<{ usage?: UsageSnapshot | null; runError?: EmbeddingError | null }> = ({
+  usage,
+  runError,
+}) => (
+  <>
+    {runError && (
+      <Alert variant="destructive">
+        <XCircle className="h-4 w-4" />
+        <AlertTitle>Run aborted: {EMBEDDING_ERROR_POLICIES[runError.kind].label}</AlertTitle>
+        <AlertDescription>
+          {EMBEDDING_ERROR_POLICIES[runError.kind].hint} Results below cover only the URLs scored before the error.
+        </AlertDescription>
+      </Alert>
+    )}
+    {usage?.capReached && (
+      <Alert>
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>Stopped at the spend cap</AlertTitle>
+        <AlertDescription>
+          The run spent {formatUsd(usage.costUsd)} of its {formatUsd(usage.capUsd)} cap. Results below cover only the URLs
+          scored before it was reached; raise the cap and run again to finish the rest, reusing cached embeddings.
+        </AlertDescription>
+      </Alert>
+    )}
+  </>
+);
+
+const UnknownPlacesBanner: React.FC<{ results: AnalysisResult[] }> = ({ results }) => {
+  const slugs = Array.from(new Set(results.flatMap(result => result.unknownPlaces ?? []))).sort();
+  if (slugs.length === 0) return null;
+  return (
+    <Alert>
+      <MapPin className="h-4 w-4" />
+      <AlertTitle>{slugs.length} unknown place{slugs.length === 1 ? '' : 's'}</AlertTitle>
+      <AlertDescription>
+        These URL slugs are not in the gazetteer, so they are shown as written and grouped under Other:{' '}
+        <span className="font-mono">{slugs.join(', ')}</span>. Add them under Settings → Places and run again.
+      </AlertDescription>
+    </Alert>
+  );
 };
 
-const getRegion = (location: string): string => {
-  const northernCities = ['manchester', 'birmingham', 'liverpool', 'leeds', 'sheffield', 'newcastle'];
-  const scottishCities = ['glasgow', 'edinburgh', 'aberdeen', 'dundee'];
-  
-  if (location.toLowerCase().includes('london')) return 'London';
-  if (scottishCities.some(city => location.toLowerCase().includes(city))) return 'Scotland';
-  if (northernCities.some(city => location.toLowerCase().includes(city))) return 'Northern England';
-  return 'Other';
+const isFailed = (result: AnalysisResult) => result.scrapeStatus === 'failed' || !!result.embeddingError;
+
+const formatPageAge = (lastModified: string): string => {
+  const days = Math.floor((Date.now() - Date.parse(lastModified)) / 86400000);
+  if (days < 1) return 'Updated today';
+  if (days < 60) return `Updated ${days} day${days !== 1 ? 's' : ''} ago`;
+  if (days < 730) return `Updated ${Math.floor(days / 30)} months ago`;
+  return `Updated ${Math.floor(days / 365)} years ago`;
+};
+
+const CHART_COLORS = ['hsl(var(--success))', 'hsl(var(--info))', 'hsl(var(--warning))', 'hsl(var(--destructive))'];
+
+const UNKNOWN_PLACE: PlaceRef = { slug: '', name: 'Unknown' };
+
+// Places come from the gazetteer via the URL's prompt rule; URLs no rule parsed as a route show as unknown.
+const routeOf = (result: AnalysisResult) => {
+  const origin = result.route?.origin ?? UNKNOWN_PLACE;
+  const destination = result.route?.destination ?? UNKNOWN_PLACE;
+  return { origin, destination, route: result.route ? `${origin.name} to ${destination.name}` : 'Unknown route' };
 };
 
+const routeTerms = (result: AnalysisResult): string[] =>
+  result.route ? [result.route.origin.name, result.route.destination.name] : [];
+
+const getRegion = (place: PlaceRef): string => place.place?.region || 'Other';
+
 const analyzeSemanticGaps = (pageText: string, gptAnswer: string): {
   keywordGaps: string[];
   entityMismatch: boolean;
@@ -152,22 +315,58 @@ const calculatePriorityScore = (result: AnalysisResult): number => {
 
 export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
   results,
+  runSummary,
+  usage,
+  runError,
+  errorLogSize = 0,
   onExportCSV,
+  onExportErrorLog,
+  onExportCassette,
+  uncoveredRoutes,
+  onExportUncoveredRoutes,
 }) => {
-  if (results.length === 0) return null;
+  // An aborted run can end with nothing scored, and then its error and error log matter most; unmatched and
+  // failed URLs are still worth exporting.
+  const hasDownloads = results.length > 0 || (errorLogSize > 0 && !!onExportErrorLog) || !!onExportCassette;
+  if (!runError && !hasDownloads) return null;
+
+  // URLs that could not be read or embedded, or that no GPT response matched, have no score, so they stay out of
+  // every aggregate below; unmatched URLs still count towards prompt coverage.
+  const failedResults = results.filter(isFailed);
+  const unmatchedResults = results.filter(result => result.matchFound === false);
+  const scoredResults = results.filter(result => !isFailed(result) && result.matchFound !== false);
+  const isDemo = results.some(result => result.demoMode);
+  if (scoredResults.length === 0) {
+    return (
+      <div className="space-y-6">
+        {isDemo && <DemoModeBanner />}
+        <RunStoppedBanner usage={usage} runError={runError} />
+        <UnknownPlacesBanner results={results} />
+        {unmatchedResults.length > 0 && <UnmatchedUrlsPanel unmatched={unmatchedResults} />}
+        {uncoveredRoutes?.length > 0 && <UncoveredRoutesPanel routes={uncoveredRoutes} onExport={onExportUncoveredRoutes} />}
+        {failedResults.length > 0 && <ScrapeFailuresPanel failures={failedResults} />}
+        {hasDownloads && (
+          <ExportCard
+            onExportCSV={results.length > 0 ? onExportCSV : undefined}
+            errorLogSize={errorLogSize}
+            onExportErrorLog={onExportErrorLog}
+            onExportCassette={onExportCassette}
+          />
+        )}
+      </div>
+    );
+  }
 
   // Enhanced analysis with new features
-  const enhancedResults = results.map(result => {
+  const enhancedResults = scoredResults.map(result => {
     const semanticAnalysis = analyzeSemanticGaps(result.pageText, result.gptAnswer);
     const intentType = classifyIntent(result.prompt, result.pageText);
-    const matchFound = result.prompt && result.gptAnswer ? true : false;
-    const idealPrompt = result.urlPattern || extractRouteData(result.url).route.replace('-', ' ');
+    const idealPrompt = result.urlPattern || routeOf(result).route;
     
     const enhanced = {
       ...result,
       ...semanticAnalysis,
       intentType,
-      matchFound,
       idealPrompt,
       priorityScore: 0
     };
@@ -179,8 +378,8 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
   const avgSimilarity = enhancedResults.reduce((sum, r) => sum + r.similarity, 0) / enhancedResults.length;
   
   // New Analytics Data
-  const matchFoundCount = enhancedResults.filter(r => r.matchFound).length;
-  const noMatchCount = enhancedResults.length - matchFoundCount;
+  const noMatchCount = unmatchedResults.length;
+  const matchFoundCount = results.length - noMatchCount;
   
   const intentDistribution = enhancedResults.reduce((acc, r) => {
     acc[r.intentType!] = (acc[r.intentType!] || 0) + 1;
@@ -215,8 +414,7 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
 
   // Route-based analysis
   const routeAnalysis = enhancedResults.reduce((acc, result) => {
-    const { origin, destination } = extractRouteData(result.url);
-    const key = `${origin} to ${destination}`;
+    const key = routeOf(result).route;
     if (!acc[key]) {
       acc[key] = { routes: [], totalScore: 0, count: 0 };
     }
@@ -228,7 +426,7 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
 
   // Geographic analysis
   const regionAnalysis = enhancedResults.reduce((acc, result) => {
-    const { origin, destination } = extractRouteData(result.url);
+    const { origin, destination } = routeOf(result);
     const regions = [getRegion(origin), getRegion(destination)];
     regions.forEach(region => {
       if (!acc[region]) acc[region] = { count: 0, totalScore: 0, urls: [] };
@@ -268,6 +466,10 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
 
   return (
     <div className="space-y-6">
+      {isDemo && <DemoModeBanner />}
+      <RunStoppedBanner usage={usage} runError={runError} />
+      <UnknownPlacesBanner results={results} />
+
       {/* Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card className="p-6">
@@ -275,9 +477,10 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
             <div className="h-2 w-2 rounded-full bg-primary"></div>
             <span className="text-sm font-medium text-muted-foreground">URLs Analyzed</span>
           </div>
-          <p className="text-3xl font-bold">{enhancedResults.length}</p>
+          <p className="text-3xl font-bold">{results.length}</p>
           <p className="text-xs text-muted-foreground mt-1">
             {matchFoundCount} with GPT match, {noMatchCount} missing
+            {failedResults.length > 0 && `, ${failedResults.length} failed to scrape`}
           </p>
         </Card>
 
@@ -285,11 +488,25 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
           <div className="flex items-center gap-2 mb-2">
             <TrendingUp className="h-4 w-4 text-primary" />
             <span className="text-sm font-medium text-muted-foreground">Average Similarity</span>
+            {isDemo && <Badge variant="outline">Demo</Badge>}
           </div>
           <p className="text-3xl font-bold">{(avgSimilarity * 100).toFixed(1)}%</p>
           <p className="text-xs text-muted-foreground mt-1">
             {semanticIssues.keywordGaps + semanticIssues.entityMismatch + semanticIssues.structureIssues} semantic issues
           </p>
+          {scoredResults[0].embeddingModel && (
+            <p className="text-xs text-muted-foreground mt-1">
+              {scoredResults[0].embeddingProvider} · {scoredResults[0].embeddingModel} ({scoredResults[0].embeddingDimensions} dims)
+              {scoredResults[0].aggregation && ` · ${scoredResults[0].aggregation}`}
+            </p>
+          )}
+          {runSummary && runSummary.inputs > 0 && (
+            <p className="text-xs text-muted-foreground mt-1">
+              Cache hit rate {((runSummary.cacheHits / runSummary.inputs) * 100).toFixed(0)}%
+              ({runSummary.cacheHits} of {runSummary.inputs} texts, {runSummary.requests} API requests)
+              {usage && !isDemo && `, ${usage.tokens.toLocaleString()} tokens billed (${formatUsd(usage.costUsd)})`}
+            </p>
+          )}
         </Card>
 
         <Card className="p-6">
@@ -303,15 +520,12 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
           </p>
         </Card>
 
-        <Card className="p-6 flex items-center justify-between">
-          <div>
-            <p className="text-sm font-medium text-muted-foreground mb-2">Export Results</p>
-            <Button onClick={onExportCSV} size="sm" className="gap-2">
-              <Download className="h-4 w-4" />
-              Download CSV
-            </Button>
-          </div>
-        </Card>
+        <ExportCard
+          onExportCSV={onExportCSV}
+          errorLogSize={errorLogSize}
+          onExportErrorLog={onExportErrorLog}
+          onExportCassette={onExportCassette}
+        />
       </div>
 
       {/* New Advanced Analytics */}
@@ -326,7 +540,7 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
                   {matchFoundCount}
                 </Badge>
                 <span className="text-xs text-muted-foreground">
-                  {((matchFoundCount / enhancedResults.length) * 100).toFixed(0)}%
+                  {((matchFoundCount / results.length) * 100).toFixed(0)}%
                 </span>
               </div>
             </div>
@@ -337,7 +551,7 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
                   {noMatchCount}
                 </Badge>
                 <span className="text-xs text-muted-foreground">
-                  {((noMatchCount / enhancedResults.length) * 100).toFixed(0)}%
+                  {((noMatchCount / results.length) * 100).toFixed(0)}%
                 </span>
               </div>
             </div>
@@ -345,9 +559,9 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
               <div className="p-3 bg-destructive/10 rounded-lg">
                 <p className="text-sm font-medium text-destructive mb-2">Missing Ideal Prompts:</p>
                 <div className="space-y-1">
-                  {enhancedResults.filter(r => !r.matchFound).slice(0, 3).map((result, i) => (
+                  {unmatchedResults.slice(0, 3).map((result, i) => (
                     <div key={i} className="text-xs text-muted-foreground">
-                      "{result.idealPrompt}"
+                      "{result.urlPattern || routeOf(result).route}"
                     </div>
                   ))}
                 </div>
@@ -416,6 +630,12 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
         </Card>
       </div>
 
+      {/* Intent Coverage */}
+      {/* Unmatched URLs are included so their intents count as having no GPT response. */}
+      {enhancedResults.some(result => (result.variants?.length ?? 0) > 1) && (
+        <IntentCoveragePanel results={[...enhancedResults, ...unmatchedResults]} />
+      )}
+
       {/* Priority Action Matrix */}
       <Card className="p-6">
         <h3 className="text-lg font-semibold mb-4">Priority Action Matrix</h3>
@@ -433,7 +653,7 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
                 .slice(0, 3)
                 .map((result, i) => (
                   <div key={i} className="text-xs p-1 bg-white rounded mb-1">
-                    {extractRouteData(result.url).route} ({(result.similarity * 100).toFixed(0)}%)
+                    {routeOf(result).route} ({(result.similarity * 100).toFixed(0)}%)
                   </div>
                 ))}
             </div>
@@ -452,7 +672,7 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
                 .slice(0, 3)
                 .map((result, i) => (
                   <div key={i} className="text-xs p-1 bg-white rounded mb-1">
-                    {extractRouteData(result.url).route} ({(result.similarity * 100).toFixed(0)}%)
+                    {routeOf(result).route} ({(result.similarity * 100).toFixed(0)}%)
                   </div>
                 ))}
             </div>
@@ -471,7 +691,7 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
                 .slice(0, 3)
                 .map((result, i) => (
                   <div key={i} className="text-xs p-1 bg-white rounded mb-1">
-                    {extractRouteData(result.url).route} ({(result.similarity * 100).toFixed(0)}%)
+                    {routeOf(result).route} ({(result.similarity * 100).toFixed(0)}%)
                   </div>
                 ))}
             </div>
@@ -649,7 +869,7 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
                 <p className="text-sm font-medium mb-2">Affected URLs:</p>
                 <div className="flex flex-wrap gap-2">
                   {criticalIssues.slice(0, 5).map((result, index) => {
-                    const { route } = extractRouteData(result.url);
+                    const { route } = routeOf(result);
                     return (
                       <Badge key={index} variant="outline" className="text-xs">
                         {route}
@@ -696,7 +916,7 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
                 <p className="text-sm font-medium mb-2">Affected URLs:</p>
                 <div className="flex flex-wrap gap-2">
                   {optimizationOpportunities.slice(0, 5).map((result, index) => {
-                    const { route } = extractRouteData(result.url);
+                    const { route } = routeOf(result);
                     return (
                       <Badge key={index} variant="outline" className="text-xs">
                         {route}
@@ -718,6 +938,10 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
         </div>
       </Card>
 
+      {unmatchedResults.length > 0 && <UnmatchedUrlsPanel unmatched={unmatchedResults} />}
+      {uncoveredRoutes?.length > 0 && <UncoveredRoutesPanel routes={uncoveredRoutes} onExport={onExportUncoveredRoutes} />}
+      {failedResults.length > 0 && <ScrapeFailuresPanel failures={failedResults} />}
+
       {/* Detailed Results */}
       <Card className="p-6">
         <div className="flex items-center justify-between mb-4">
@@ -725,7 +949,7 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
         </div>
         
         <div className="space-y-4">
-          {results.map((result, index) => {
+          {scoredResults.map((result, index) => {
             const { label, color, icon: Icon } = getSimilarityLabel(result.similarity);
             return (
               <Card key={index} className="p-4 border-l-4" style={{ borderLeftColor: `hsl(var(--${color}))` }}>
@@ -734,7 +958,20 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
                     <Icon className="h-5 w-5" />
                     <h4 className="font-medium">URL {index + 1}</h4>
                     <Badge variant={color as any}>{label}</Badge>
+                    {result.demoMode && <Badge variant="outline">Demo</Badge>}
                     <span className="text-lg font-bold">{(result.similarity * 100).toFixed(1)}%</span>
+                    {result.segment && <Badge variant="outline">{result.segment}</Badge>}
+                    {result.unknownPlaces?.length > 0 && (
+                      <Badge variant="outline" className="gap-1" title={`Not in the gazetteer: ${result.unknownPlaces.join(', ')}`}>
+                        <MapPin className="h-3 w-3" /> Unknown place
+                      </Badge>
+                    )}
+                    {result.owner && <span className="text-xs text-muted-foreground">Owner: {result.owner}</span>}
+                    {result.lastModified && (
+                      <span className="text-xs text-muted-foreground" title={result.lastModified}>
+                        {formatPageAge(result.lastModified)}
+                      </span>
+                    )}
                   </div>
                   <Button variant="ghost" size="sm" asChild>
                     <a href={result.url} target="_blank" rel="noopener noreferrer">
@@ -749,14 +986,51 @@ export const AnalysisResults: React.FC<AnalysisResultsProps> = ({
                     <p className="text-xs bg-muted p-2 rounded truncate">
                       {result.pageText.substring(0, 200)}...
                     </p>
+                    {result.chunkCount !== undefined && result.chunkCount > 1 && (
+                      <>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {result.chunkCount} chunks scored, combined by {result.aggregation?.toLowerCase()}. Best match:
+                        </p>
+                        <p className="text-xs bg-muted p-2 rounded truncate mt-1">{result.bestChunk}</p>
+                      </>
+                    )}
                   </div>
                   <div>
                     <p className="font-medium text-muted-foreground mb-1">GPT Response (Preview)</p>
+                    {result.matchedPrompt && (
+                      <p className="text-xs text-muted-foreground mb-1" title={result.runnerUpPrompts?.length ? `Runner-ups: ${result.runnerUpPrompts.join(' | ')}` : undefined}>
+                        For "{result.matchedPrompt}"
+                        {result.matchConfidence !== undefined && ` · ${Math.round(result.matchConfidence * 100)}% match`}
+                        {result.matchStatus === 'confirmed' && ' · confirmed by you'}
+                      </p>
+                    )}
                     <p className="text-xs bg-muted p-2 rounded truncate">
                       {result.gptAnswer.substring(0, 200)}...
                     </p>
+                    {(result.responseModel || result.responseDate || result.responseLocale) && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {[result.responseModel, result.responseDate?.split('T')[0], result.responseLocale].filter(Boolean).join(' · ')}
+                      </p>
+                    )}
                   </div>
                 </div>
+
+                {result.variants && result.variants.length > 1 && (
+                  <div className="flex flex-wrap gap-2 mt-3">
+                    {result.variants.map(variant => (
+                      <Badge
+                        key={variant.intent}
+                        variant={!Number.isFinite(variant.similarity) ? 'outline' : variant.similarity < 0.6 ? 'destructive' : 'secondary'}
+                        title={variant.matchedPrompt ? `${variant.prompt} → ${variant.matchedPrompt}` : `${variant.prompt} (no GPT response)`}
+                      >
+                        {variant.intent}: {Number.isFinite(variant.similarity) ? `${(variant.similarity * 100).toFixed(0)}%` : 'n/a'}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
+                {result.page && <PageStructureDetails page={result.page} terms={routeTerms(result)} />}
+                {result.extraction && <ExtractionDetails extraction={result.extraction} />}
               </Card>
             );
           })}
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Disc3, Play } from 'lucide-react';
+import { Cassette, parseCassette } from '@/lib/cassette';
+
+interface CassetteReplayProps {
+  onReplay: (cassette: Cassette) => void;
+  disabled: boolean;
+}
+
+export const CassetteReplay: React.FC<CassetteReplayProps> = ({ onReplay, disabled }) => {
+  const [cassette, setCassette] = useState<Cassette | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    try {
+      setCassette(parseCassette(new Uint8Array(await file.arrayBuffer())));
+      setFileName(file.name);
+    } catch (err) {
+      setCassette(null);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center gap-2 mb-2">
+        <Disc3 className="h-5 w-5 text-primary" />
+        <h3 className="font-semibold">Replay a Recorded Run</h3>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        A cassette holds the inputs, settings, pages and embeddings of a recorded run. Replaying it reproduces the
+        same scores without any network access or API key.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="file"
+          accept=".gz,.json"
+          onChange={handleFile}
+          className="hidden"
+          id="cassette-file"
+        />
+        <Button variant="outline" size="sm" asChild>
+          <label htmlFor="cassette-file" className="cursor-pointer gap-2">
+            <Disc3 className="h-4 w-4" /> Load cassette
+          </label>
+        </Button>
+        {cassette && (
+          <Button size="sm" className="gap-2" disabled={disabled} onClick={() => onReplay(cassette)}>
+            <Play className="h-4 w-4" /> Replay run
+          </Button>
+        )}
+      </div>
+
+      {cassette && (
+        <p className="text-sm mt-3">
+          {fileName}: {cassette.records.length} URLs, {cassette.responses.length} GPT responses, embedded with{' '}
+          {cassette.embedder.name} · {cassette.embedder.model}, recorded {new Date(cassette.recordedAt).toLocaleString()}
+        </p>
+      )}
+      {error && <p className="text-xs text-destructive mt-3">{error}</p>}
+    </Card>
+  );
+};
@@ -0,0 +1,83 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { AGGREGATION_LABELS, AggregationStrategy, ChunkingSettings } from '@/lib/chunking';
+
+interface ChunkingSettingsPanelProps {
+  value: ChunkingSettings;
+  onChange: (value: ChunkingSettings) => void;
+}
+
+const clamp = (value: string, min: number, max: number) =>
+  Math.min(max, Math.max(min, Math.round(Number(value) || 0)));
+
+export const ChunkingSettingsPanel: React.FC<ChunkingSettingsPanelProps> = ({ value, onChange }) => {
+  const update = (patch: Partial<ChunkingSettings>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="chunk-tokens">Chunk size (tokens)</Label>
+          <Input
+            id="chunk-tokens"
+            type="number"
+            min={64}
+            max={8191}
+            value={value.chunkTokens}
+            onChange={(e) => update({ chunkTokens: clamp(e.target.value, 64, 8191) })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="chunk-overlap">Overlap (tokens)</Label>
+          <Input
+            id="chunk-overlap"
+            type="number"
+            min={0}
+            max={1024}
+            value={value.overlapTokens}
+            onChange={(e) => update({ overlapTokens: clamp(e.target.value, 0, 1024) })}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Long pages are split into chunks and each chunk is compared with the GPT answer. Chunks never exceed the
+        embedding model's input limit, and the overlap keeps sentences at a boundary in both neighbours.
+      </p>
+
+      <div className="space-y-2">
+        <Label>Combine chunk scores by</Label>
+        <RadioGroup
+          value={value.aggregation}
+          onValueChange={(aggregation) => update({ aggregation: aggregation as AggregationStrategy })}
+          className="space-y-2"
+        >
+          {(Object.keys(AGGREGATION_LABELS) as AggregationStrategy[]).map(strategy => (
+            <Label key={strategy} htmlFor={`aggregation-${strategy}`} className="flex items-start gap-3 p-3 border rounded-lg cursor-pointer">
+              <RadioGroupItem value={strategy} id={`aggregation-${strategy}`} className="mt-1" />
+              <div>
+                <p className="font-medium">{AGGREGATION_LABELS[strategy].label}</p>
+                <p className="text-xs text-muted-foreground font-normal mt-1">{AGGREGATION_LABELS[strategy].description}</p>
+              </div>
+            </Label>
+          ))}
+        </RadioGroup>
+      </div>
+
+      {value.aggregation === 'top-k-mean' && (
+        <div className="space-y-2">
+          <Label htmlFor="aggregation-top-k">k</Label>
+          <Input
+            id="aggregation-top-k"
+            type="number"
+            min={1}
+            max={20}
+            value={value.topK}
+            onChange={(e) => update({ topK: clamp(e.target.value, 1, 20) })}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Columns } from 'lucide-react';
+import { CsvParseResult } from '@/lib/csv';
+import { COLUMN_ROLES, ColumnMapping, ColumnRole, UrlRecord } from '@/lib/columnMapping';
+
+interface ColumnMapperProps {
+  csv: CsvParseResult;
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+  records: UrlRecord[];
+}
+
+const PREVIEW_ROWS = 5;
+const IGNORE = 'ignore';
+
+export const ColumnMapper: React.FC<ColumnMapperProps> = ({
+  csv,
+  mapping,
+  onChange,
+  records,
+}) => {
+  const roleForColumn = (column: number): ColumnRole | undefined =>
+    COLUMN_ROLES.find(({ role }) => mapping[role] === column)?.role;
+
+  const assignRole = (column: number, value: string) => {
+    const next: ColumnMapping = { ...mapping };
+    // Each column holds at most one role and each role comes from at most one column.
+    for (const { role } of COLUMN_ROLES) {
+      if (next[role] === column) delete next[role];
+    }
+    if (value !== IGNORE) {
+      next[value as ColumnRole] = column;
+    }
+    onChange(next);
+  };
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Columns className="h-4 w-4 text-primary" />
+          <h3 className="font-medium">Map CSV Columns</h3>
+        </div>
+        <span className="text-xs text-muted-foreground">
+          {records.length} of {csv.rows.length} rows have a valid URL
+        </span>
+      </div>
+
+      {mapping.url === undefined && (
+        <p className="text-xs text-destructive mb-3">Assign the URL role to a column to continue.</p>
+      )}
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {csv.header.map((name, column) => (
+                <TableHead key={column} className="min-w-[160px] align-top py-2">
+                  <p className="text-xs font-medium text-foreground mb-1 truncate">{name}</p>
+                  <Select value={roleForColumn(column) ?? IGNORE} onValueChange={value => assignRole(column, value)}>
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={IGNORE} className="text-xs">Ignore</SelectItem>
+                      {COLUMN_ROLES.map(({ role, label }) => (
+                        <SelectItem key={role} value={role} className="text-xs">{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {csv.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+              <TableRow key={rowIndex}>
+                {row.map((value, column) => (
+                  <TableCell
+                    key={column}
+                    className={`text-xs max-w-[240px] truncate py-2 ${roleForColumn(column) ? '' : 'text-muted-foreground'}`}
+                  >
+                    {value}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mt-3">
+        {COLUMN_ROLES.filter(({ role }) => mapping[role] !== undefined).map(({ role, label, description }) => (
+          <Badge key={role} variant="secondary" className="text-xs" title={description}>
+            {label}: {csv.header[mapping[role]!]}
+          </Badge>
+        ))}
+      </div>
+    </Card>
+  );
+};
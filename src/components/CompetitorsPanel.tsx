@@ -0,0 +1,58 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { Competitor, createCompetitor, DEFAULT_COMPETITORS } from '@/lib/competitors';
+
+interface CompetitorsPanelProps {
+  value: Competitor[];
+  onChange: (value: Competitor[]) => void;
+}
+
+export const CompetitorsPanel: React.FC<CompetitorsPanelProps> = ({ value, onChange }) => {
+  const update = (index: number, patch: Partial<Competitor>) => {
+    onChange(value.map((competitor, i) => (i === index ? { ...competitor, ...patch } : competitor)));
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Routes that GPT answers but no uploaded URL covers are ranked by how many of their answers name these brands.
+        Names and aliases match whole words, ignoring case.
+      </p>
+
+      <div className="space-y-2">
+        {value.map((competitor, index) => (
+          <div key={index} className="flex gap-2">
+            <Input
+              aria-label="Name"
+              value={competitor.name}
+              onChange={(e) => update(index, { name: e.target.value })}
+              placeholder="Trainline"
+              className="w-40"
+            />
+            <Input
+              aria-label="Aliases"
+              value={competitor.aliases.join(',')}
+              onChange={(e) => update(index, { aliases: e.target.value.split(',') })}
+              placeholder="Aliases, comma separated"
+              className="text-xs"
+            />
+            <Button variant="ghost" size="icon" onClick={() => onChange(value.filter((_, i) => i !== index))}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="gap-2" onClick={() => onChange([...value, createCompetitor()])}>
+          <Plus className="h-4 w-4" /> Add competitor
+        </Button>
+        <Button variant="ghost" size="sm" className="gap-2" onClick={() => onChange(DEFAULT_COMPETITORS)}>
+          <RotateCcw className="h-4 w-4" /> Restore defaults
+        </Button>
+      </div>
+    </div>
+  );
+};
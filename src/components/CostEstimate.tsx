@@ -0,0 +1,105 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Calculator, Loader2 } from 'lucide-react';
+import { ASSUMED_PAGE_TOKENS, RunEstimate } from '@/lib/costEstimate';
+import { BudgetSettings, costOf, formatUsd } from '@/lib/usage';
+
+interface CostEstimateProps {
+  estimate: RunEstimate | null;
+  pricePerMillionTokens: number;
+  /** False when the model is not on the price list and the custom price applies. */
+  hasListPrice: boolean;
+  budget: BudgetSettings;
+  onBudgetChange: (value: BudgetSettings) => void;
+  demoMode: boolean;
+}
+
+const toDollars = (value: string) => Math.max(0, Number(value) || 0);
+
+export const CostEstimate: React.FC<CostEstimateProps> = ({
+  estimate,
+  pricePerMillionTokens,
+  hasListPrice,
+  budget,
+  onBudgetChange,
+  demoMode,
+}) => {
+  const cost = estimate ? costOf(estimate.tokens, pricePerMillionTokens) : 0;
+  const overCap = budget.capUsd > 0 && cost > budget.capUsd;
+
+  return (
+    <div className="space-y-4 p-3 border rounded-lg">
+      <div className="flex items-center gap-2">
+        <Calculator className="h-4 w-4 text-primary" />
+        <span className="font-medium text-sm">Estimated usage</span>
+      </div>
+
+      {!estimate ? (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Counting tokens…
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-4 text-center">
+            <div>
+              <p className="text-xl font-bold">{estimate.texts.toLocaleString()}</p>
+              <p className="text-xs text-muted-foreground">texts for {estimate.urls} URLs</p>
+            </div>
+            <div>
+              <p className="text-xl font-bold">{estimate.tokens.toLocaleString()}</p>
+              <p className="text-xs text-muted-foreground">tokens</p>
+            </div>
+            <div>
+              <p className="text-xl font-bold">{demoMode ? 'Free' : formatUsd(cost)}</p>
+              <p className="text-xs text-muted-foreground">
+                {demoMode ? 'demo mode' : `at ${formatUsd(pricePerMillionTokens)} / 1M tokens`}
+              </p>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {estimate.assumedPages > 0 &&
+              `${estimate.assumedPages} pages are not fetched yet and are counted at about ${ASSUMED_PAGE_TOKENS.toLocaleString()} tokens each. `}
+            Texts already in the embedding cache are not subtracted.
+          </p>
+        </>
+      )}
+
+      {!demoMode && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {!hasListPrice && (
+            <div className="space-y-2">
+              <Label htmlFor="custom-price">Price per 1M tokens (USD)</Label>
+              <Input
+                id="custom-price"
+                type="number"
+                min={0}
+                step="0.01"
+                value={budget.customPricePerMillionTokens}
+                onChange={(e) => onBudgetChange({ ...budget, customPricePerMillionTokens: toDollars(e.target.value) })}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="spend-cap">Spend cap (USD, 0 for none)</Label>
+            <Input
+              id="spend-cap"
+              type="number"
+              min={0}
+              step="0.01"
+              value={budget.capUsd}
+              onChange={(e) => onBudgetChange({ ...budget, capUsd: toDollars(e.target.value) })}
+            />
+          </div>
+        </div>
+      )}
+
+      {!demoMode && overCap && (
+        <p className="text-xs text-warning">
+          The estimate is above the cap. The run will stop once the cap is reached and keep the results scored so far.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { CsvParseResult } from '@/lib/csv';
+
+interface CsvParseReportProps {
+  report: CsvParseResult;
+}
+
+const DELIMITER_LABELS: Record<CsvParseResult['delimiter'], string> = {
+  ',': 'comma',
+  ';': 'semicolon',
+  '\t': 'tab',
+};
+
+export const CsvParseReport: React.FC<CsvParseReportProps> = ({ report }) => {
+  const hasIssues = report.issues.length > 0;
+
+  return (
+    <Card className={`p-4 ${hasIssues ? 'border-warning/40 bg-warning/5' : ''}`}>
+      <div className="flex items-center gap-2 mb-2">
+        {hasIssues ? (
+          <AlertTriangle className="h-4 w-4 text-warning" />
+        ) : (
+          <CheckCircle className="h-4 w-4 text-success" />
+        )}
+        <span className="text-sm font-medium">
+          {report.rows.length} row{report.rows.length !== 1 ? 's' : ''} parsed
+        </span>
+        <Badge variant="outline" className="text-xs">{DELIMITER_LABELS[report.delimiter]}-separated</Badge>
+        <Badge variant="outline" className="text-xs">
+          {report.hasHeader ? 'Header row detected' : 'No header row'}
+        </Badge>
+      </div>
+
+      {hasIssues && (
+        <>
+          <p className="text-xs text-muted-foreground mb-2">
+            {report.issues.length} malformed line{report.issues.length !== 1 ? 's were' : ' was'} excluded from the analysis:
+          </p>
+          <div className="max-h-40 overflow-y-auto space-y-1">
+            {report.issues.map((issue, index) => (
+              <div key={index} className="text-xs bg-muted p-2 rounded">
+                <span className="font-medium">Line {issue.line}:</span> {issue.message}
+                <p className="text-muted-foreground truncate font-mono">{issue.raw}</p>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </Card>
+  );
+};
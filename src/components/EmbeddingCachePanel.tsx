@@ -0,0 +1,106 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Trash2 } from 'lucide-react';
+import { clearEmbeddingCache, EmbeddingCacheSettings, EmbeddingCacheStats, getEmbeddingCacheStats } from '@/lib/embeddingCache';
+
+interface EmbeddingCachePanelProps {
+  value: EmbeddingCacheSettings;
+  onChange: (value: EmbeddingCacheSettings) => void;
+}
+
+const formatMegabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export const EmbeddingCachePanel: React.FC<EmbeddingCachePanelProps> = ({ value, onChange }) => {
+  const [stats, setStats] = useState<EmbeddingCacheStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setStats(await getEmbeddingCacheStats());
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The browser blocked access to IndexedDB');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const clear = async (namespace?: string) => {
+    await clearEmbeddingCache(namespace);
+    await refresh();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <Label htmlFor="cache-enabled" className="font-normal">
+          Reuse embeddings of unchanged pages and answers across runs
+        </Label>
+        <Switch
+          id="cache-enabled"
+          checked={value.enabled}
+          onCheckedChange={(enabled) => onChange({ ...value, enabled })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="cache-size">Size limit (MB)</Label>
+        <Input
+          id="cache-size"
+          type="number"
+          min={10}
+          max={2000}
+          value={value.maxMegabytes}
+          onChange={(e) =>
+            onChange({ ...value, maxMegabytes: Math.min(2000, Math.max(10, Math.round(Number(e.target.value) || 0))) })
+          }
+        />
+        <p className="text-xs text-muted-foreground">
+          Vectors are stored in this browser, keyed by provider, model, dimensions and a hash of the text.
+          After each run the least recently used ones are removed until the cache fits.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Stored vectors</Label>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            disabled={!stats || stats.entries === 0}
+            onClick={() => clear()}
+          >
+            <Trash2 className="h-4 w-4" />
+            Clear all
+          </Button>
+        </div>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {stats && stats.entries === 0 && <p className="text-sm text-muted-foreground">The cache is empty.</p>}
+        {stats && stats.namespaces.map(namespace => (
+          <div key={namespace.namespace} className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+            <div className="min-w-0">
+              <p className="font-mono text-sm truncate">{namespace.namespace}</p>
+              <p className="text-xs text-muted-foreground">
+                {namespace.entries} vectors · {formatMegabytes(namespace.bytes)}
+              </p>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => clear(namespace.namespace)}>
+              Clear
+            </Button>
+          </div>
+        ))}
+        {stats && stats.entries > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {stats.entries} vectors, {formatMegabytes(stats.bytes)} of {value.maxMegabytes} MB
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
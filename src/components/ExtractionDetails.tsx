@@ -0,0 +1,64 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, Filter } from 'lucide-react';
+import { ContentBlock, ExtractionSummary } from '@/lib/scraper';
+
+interface ExtractionDetailsProps {
+  extraction: ExtractionSummary;
+}
+
+const BlockList: React.FC<{ blocks: ContentBlock[]; total: number; tone: 'success' | 'destructive' }> = ({
+  blocks,
+  total,
+  tone,
+}) => (
+  <div className="space-y-1 max-h-64 overflow-y-auto">
+    {blocks.map((block, index) => (
+      <div key={index} className={`text-xs p-2 rounded border-l-2 bg-muted ${tone === 'success' ? 'border-success' : 'border-destructive'}`}>
+        <p className="text-muted-foreground mb-1">
+          &lt;{block.tag}&gt; · {block.reason}
+        </p>
+        <p>{block.text}</p>
+      </div>
+    ))}
+    {total > blocks.length && (
+      <p className="text-xs text-muted-foreground">and {total - blocks.length} more blocks…</p>
+    )}
+  </div>
+);
+
+export const ExtractionDetails: React.FC<ExtractionDetailsProps> = ({ extraction }) => {
+  const totalChars = extraction.keptChars + extraction.discardedChars;
+  const keptShare = totalChars > 0 ? (extraction.keptChars / totalChars) * 100 : 0;
+
+  return (
+    <Collapsible className="mt-3">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2 px-2 text-xs text-muted-foreground">
+          <Filter className="h-3 w-3" />
+          Content extraction: kept {extraction.keptCount} blocks ({keptShare.toFixed(0)}% of text), discarded {extraction.discardedCount}
+          <ChevronDown className="h-3 w-3" />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        {extraction.rule && (
+          <p className="text-xs text-muted-foreground mt-2">
+            Site rule for <span className="font-medium">{extraction.rule.hostname}</span> applied
+            {extraction.rule.includeMatched ? '' : ' (include selectors matched nothing; generic extraction used)'}
+          </p>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-2">
+          <div>
+            <p className="text-xs font-medium text-success mb-2">Kept ({extraction.keptChars.toLocaleString()} chars)</p>
+            <BlockList blocks={extraction.kept} total={extraction.keptCount} tone="success" />
+          </div>
+          <div>
+            <p className="text-xs font-medium text-destructive mb-2">Discarded ({extraction.discardedChars.toLocaleString()} chars)</p>
+            <BlockList blocks={extraction.discarded} total={extraction.discardedCount} tone="destructive" />
+          </div>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ExtractionDetails } from '@/components/ExtractionDetails';
+import { Loader2, Play, Plus, Trash2 } from 'lucide-react';
+import { createExtractionRule, ExtractionRule, validateSelector } from '@/lib/extractionRules';
+import { extractMainContent, summarizeExtraction } from '@/lib/scraper';
+import { PageFetcher } from '@/lib/fetchers';
+
+interface ExtractionRulesPanelProps {
+  value: ExtractionRule[];
+  onChange: (value: ExtractionRule[]) => void;
+  fetcher: PageFetcher;
+}
+
+const PREVIEW_CHARS = 1500;
+
+export const ExtractionRulesPanel: React.FC<ExtractionRulesPanelProps> = ({ value, onChange, fetcher }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(value[0]?.id ?? null);
+  const [testUrl, setTestUrl] = useState('');
+  const [testHtml, setTestHtml] = useState<string | null>(null);
+  const [testError, setTestError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const selected = value.find(rule => rule.id === selectedId);
+
+  const updateSelected = (patch: Partial<ExtractionRule>) => {
+    onChange(value.map(rule => (rule.id === selectedId ? { ...rule, ...patch } : rule)));
+  };
+
+  const addRule = () => {
+    let hostname = '';
+    try {
+      hostname = testUrl ? new URL(testUrl).hostname : '';
+    } catch {
+      // Leave the hostname for the user to fill in.
+    }
+    const rule = createExtractionRule(hostname);
+    onChange([...value, rule]);
+    setSelectedId(rule.id);
+  };
+
+  const removeSelected = () => {
+    const remaining = value.filter(rule => rule.id !== selectedId);
+    onChange(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  const loadTestPage = async () => {
+    setIsLoading(true);
+    setTestError(null);
+    try {
+      setTestHtml((await fetcher.fetch(testUrl)).html);
+    } catch (error) {
+      setTestHtml(null);
+      setTestError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Re-extract on every edit so the preview follows the selectors as they are typed.
+  const preview = useMemo(
+    () => (testHtml !== null ? extractMainContent(testHtml, selected) : null),
+    [testHtml, selected]
+  );
+
+  const includeError = selected && validateSelector(selected.include);
+  const excludeError = selected && validateSelector(selected.exclude);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          {value.map(rule => (
+            <button
+              key={rule.id}
+              onClick={() => setSelectedId(rule.id)}
+              className={`w-full text-left text-sm px-3 py-2 rounded border truncate ${
+                rule.id === selectedId ? 'border-primary bg-primary/5' : 'border-border'
+              }`}
+            >
+              {rule.hostname || <span className="text-muted-foreground">New rule</span>}
+            </button>
+          ))}
+          <Button variant="outline" size="sm" className="w-full gap-2" onClick={addRule}>
+            <Plus className="h-4 w-4" /> Add rule
+          </Button>
+        </div>
+
+        <div className="md:col-span-2 space-y-4">
+          {selected ? (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="rule-hostname">Hostname</Label>
+                <Input
+                  id="rule-hostname"
+                  value={selected.hostname}
+                  onChange={(e) => updateSelected({ hostname: e.target.value })}
+                  placeholder="www.example.com or *.example.com"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-include">Only keep</Label>
+                <Textarea
+                  id="rule-include"
+                  value={selected.include}
+                  onChange={(e) => updateSelected({ include: e.target.value })}
+                  placeholder="main .route-content"
+                  className="font-mono text-xs"
+                  rows={2}
+                />
+                {includeError && <p className="text-xs text-destructive">{includeError}</p>}
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-exclude">Always drop</Label>
+                <Textarea
+                  id="rule-exclude"
+                  value={selected.exclude}
+                  onChange={(e) => updateSelected({ exclude: e.target.value })}
+                  placeholder=".cookie-consent, .app-promo"
+                  className="font-mono text-xs"
+                  rows={2}
+                />
+                {excludeError && <p className="text-xs text-destructive">{excludeError}</p>}
+              </div>
+              <Button variant="ghost" size="sm" className="gap-2 text-destructive" onClick={removeSelected}>
+                <Trash2 className="h-4 w-4" /> Delete rule
+              </Button>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No rules yet. Rules are applied automatically to every analysed URL on a matching hostname,
+              on top of the generic content cleanup.
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2 border-t pt-4">
+        <Label htmlFor="rule-test-url">Test against a URL</Label>
+        <div className="flex gap-2">
+          <Input
+            id="rule-test-url"
+            value={testUrl}
+            onChange={(e) => setTestUrl(e.target.value)}
+            placeholder="https://www.example.com/train-times/london-to-paris"
+          />
+          <Button onClick={loadTestPage} disabled={!testUrl || isLoading} className="gap-2">
+            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+            Load
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">Fetched once with {fetcher.name}; the preview updates as you edit the selected rule.</p>
+        {testError && <p className="text-xs text-destructive">{testError}</p>}
+
+        {preview && (
+          <div className="space-y-2">
+            {selected && preview.rule && !preview.rule.includeMatched && selected.include.trim() && (
+              <p className="text-xs text-warning">The include selectors matched nothing; generic extraction was used.</p>
+            )}
+            <p className="text-xs bg-muted p-2 rounded whitespace-pre-wrap max-h-48 overflow-y-auto">
+              {preview.text.substring(0, PREVIEW_CHARS) || 'No text extracted.'}
+              {preview.text.length > PREVIEW_CHARS && '…'}
+            </p>
+            <ExtractionDetails extraction={summarizeExtraction(preview)} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
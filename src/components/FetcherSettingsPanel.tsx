@@ -0,0 +1,166 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Switch } from '@/components/ui/switch';
+import { Plus, X } from 'lucide-react';
+import { FETCHER_LABELS, FetcherKind, FetcherSettings, DEFAULT_PROXY_URL } from '@/lib/fetchers';
+
+interface FetcherSettingsPanelProps {
+  value: FetcherSettings;
+  onChange: (value: FetcherSettings) => void;
+}
+
+export const FetcherSettingsPanel: React.FC<FetcherSettingsPanelProps> = ({ value, onChange }) => {
+  const update = (patch: Partial<FetcherSettings>) => onChange({ ...value, ...patch });
+
+  const updateHeader = (index: number, field: 'name' | 'value', text: string) => {
+    update({ headers: value.headers.map((header, i) => (i === index ? { ...header, [field]: text } : header)) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <RadioGroup value={value.kind} onValueChange={(kind) => update({ kind: kind as FetcherKind })} className="space-y-2">
+        {(Object.keys(FETCHER_LABELS) as FetcherKind[]).map(kind => (
+          <Label key={kind} htmlFor={`fetcher-${kind}`} className="flex items-start gap-3 p-3 border rounded-lg cursor-pointer">
+            <RadioGroupItem value={kind} id={`fetcher-${kind}`} className="mt-1" />
+            <div>
+              <p className="font-medium">{FETCHER_LABELS[kind].label}</p>
+              <p className="text-xs text-muted-foreground font-normal mt-1">{FETCHER_LABELS[kind].description}</p>
+            </div>
+          </Label>
+        ))}
+      </RadioGroup>
+
+      {value.kind === 'proxy' && (
+        <div className="space-y-2">
+          <Label htmlFor="proxy-url">Proxy URL</Label>
+          <Input
+            id="proxy-url"
+            value={value.proxyUrl}
+            onChange={(e) => update({ proxyUrl: e.target.value })}
+            placeholder={DEFAULT_PROXY_URL}
+            className="font-mono text-xs"
+          />
+          <p className="text-xs text-muted-foreground">
+            Every scraped URL is sent to this proxy. Point it at a proxy you run to keep your URL list private.
+          </p>
+        </div>
+      )}
+
+      {value.kind === 'dev-proxy' && (
+        <div className="space-y-4">
+          <p className="text-xs text-muted-foreground">
+            Only available while running <code>npm run dev</code>. Headers, cookies and the password are kept for this session only.
+          </p>
+
+          <div className="space-y-2">
+            <Label>Request headers</Label>
+            {value.headers.map((header, index) => (
+              <div key={index} className="flex gap-2">
+                <Input
+                  value={header.name}
+                  onChange={(e) => updateHeader(index, 'name', e.target.value)}
+                  placeholder="X-Staging-Token"
+                  className="font-mono text-xs"
+                />
+                <Input
+                  value={header.value}
+                  onChange={(e) => updateHeader(index, 'value', e.target.value)}
+                  placeholder="value"
+                  className="font-mono text-xs"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => update({ headers: value.headers.filter((_, i) => i !== index) })}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => update({ headers: [...value.headers, { name: '', value: '' }] })}
+            >
+              <Plus className="h-4 w-4" /> Add header
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="proxy-cookies">Cookies</Label>
+            <Input
+              id="proxy-cookies"
+              value={value.cookies}
+              onChange={(e) => update({ cookies: e.target.value })}
+              placeholder="session=abc123; preview=1"
+              className="font-mono text-xs"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="auth-username">Basic auth username</Label>
+              <Input
+                id="auth-username"
+                value={value.basicAuth.username}
+                onChange={(e) => update({ basicAuth: { ...value.basicAuth, username: e.target.value } })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="auth-password">Password</Label>
+              <Input
+                id="auth-password"
+                type="password"
+                value={value.basicAuth.password}
+                onChange={(e) => update({ basicAuth: { ...value.basicAuth, password: e.target.value } })}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-4 border-t pt-4">
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="fetch-timeout">Timeout (seconds)</Label>
+            <Input
+              id="fetch-timeout"
+              type="number"
+              min={1}
+              value={value.timeoutMs / 1000}
+              onChange={(e) => update({ timeoutMs: Math.max(1, Number(e.target.value) || 1) * 1000 })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="fetch-retries">Retries</Label>
+            <Input
+              id="fetch-retries"
+              type="number"
+              min={0}
+              max={5}
+              value={value.maxRetries}
+              onChange={(e) => update({ maxRetries: Math.min(5, Math.max(0, Math.round(Number(e.target.value) || 0))) })}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Timeouts, network errors, 429 and 5xx responses are retried with exponential backoff.
+        </p>
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="respect-robots" className="font-normal">
+            Skip pages disallowed by the site's robots.txt
+          </Label>
+          <Switch
+            id="respect-robots"
+            checked={value.respectRobots}
+            onCheckedChange={(respectRobots) => update({ respectRobots })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -11,6 +11,7 @@ interface FileUploadProps {
   icon: React.ReactNode;
   uploadedFile?: File | null;
   onRemoveFile?: () => void;
+  hint?: string;
 }
 
 export const FileUpload: React.FC<FileUploadProps> = ({
@@ -21,6 +22,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({
   icon,
   uploadedFile,
   onRemoveFile,
+  hint,
 }) => {
   const [isDragOver, setIsDragOver] = useState(false);
 
@@ -124,7 +126,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({
       </div>
       
       <p className="text-xs text-muted-foreground mt-2 text-center">
-        {accept === '.csv' ? 'CSV should contain URLs in the first column' : 'JSON should contain response data for analysis'}
+        {hint ?? (accept === '.csv' ? 'CSV may be comma, semicolon or tab separated; columns are mapped after upload' : 'Accepts prompt/response arrays, JSONL, chat completions, batch output, conversations or objects keyed by prompt')}
       </p>
     </Card>
   );
@@ -0,0 +1,107 @@
+import React from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Target } from 'lucide-react';
+import { AnalysisResult } from '@/components/AnalysisResults';
+
+interface IntentCoveragePanelProps {
+  results: AnalysisResult[];
+}
+
+interface IntentSummary {
+  intent: string;
+  scored: number;
+  unmatched: number;
+  average: number;
+  weakUrls: { url: string; similarity: number }[];
+}
+
+// Scores below this are rated Poor elsewhere in the results.
+const WEAK_SCORE = 0.6;
+const WORST_SHOWN = 3;
+
+const summarizeIntents = (results: AnalysisResult[]): IntentSummary[] => {
+  const byIntent = new Map<string, { scores: { url: string; similarity: number }[]; unmatched: number }>();
+  results.forEach(result => result.variants?.forEach(variant => {
+    const entry = byIntent.get(variant.intent) ?? { scores: [], unmatched: 0 };
+    if (Number.isFinite(variant.similarity)) entry.scores.push({ url: result.url, similarity: variant.similarity });
+    else entry.unmatched++;
+    byIntent.set(variant.intent, entry);
+  }));
+
+  return Array.from(byIntent, ([intent, { scores, unmatched }]) => ({
+    intent,
+    scored: scores.length,
+    unmatched,
+    average: scores.length ? scores.reduce((sum, score) => sum + score.similarity, 0) / scores.length : NaN,
+    weakUrls: scores.filter(score => score.similarity < WEAK_SCORE).sort((a, b) => a.similarity - b.similarity),
+  }))
+    // Worst-served intents first; intents nothing was scored on go last.
+    .sort((a, b) => (Number.isFinite(a.average) ? a.average : 2) - (Number.isFinite(b.average) ? b.average : 2));
+};
+
+export const IntentCoveragePanel: React.FC<IntentCoveragePanelProps> = ({ results }) => {
+  const intents = summarizeIntents(results);
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center gap-2 mb-2">
+        <Target className="h-5 w-5 text-primary" />
+        <h3 className="text-lg font-semibold">Intent Coverage</h3>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Each page is scored against every question its prompt rule asks. Intents at the top are the ones pages answer
+        worst; weak URLs score below {WEAK_SCORE * 100}% for that intent.
+      </p>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Intent</TableHead>
+            <TableHead className="w-48">Average</TableHead>
+            <TableHead>Weak URLs</TableHead>
+            <TableHead>Worst</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {intents.map(summary => (
+            <TableRow key={summary.intent}>
+              <TableCell className="text-sm font-medium">
+                {summary.intent}
+                {summary.unmatched > 0 && (
+                  <span className="block text-xs text-muted-foreground font-normal">
+                    No GPT response for {summary.unmatched} URL{summary.unmatched === 1 ? '' : 's'}
+                  </span>
+                )}
+              </TableCell>
+              <TableCell>
+                {Number.isFinite(summary.average) ? (
+                  <div className="flex items-center gap-2">
+                    <Progress value={summary.average * 100} className="h-2" />
+                    <span className="text-xs w-10 text-right">{(summary.average * 100).toFixed(0)}%</span>
+                  </div>
+                ) : (
+                  <span className="text-xs text-muted-foreground">Not scored</span>
+                )}
+              </TableCell>
+              <TableCell>
+                <Badge variant={summary.weakUrls.length > 0 ? 'destructive' : 'secondary'}>
+                  {summary.weakUrls.length} / {summary.scored}
+                </Badge>
+              </TableCell>
+              <TableCell className="text-xs max-w-xs">
+                {summary.weakUrls.slice(0, WORST_SHOWN).map(({ url, similarity }) => (
+                  <p key={url} className="truncate" title={url}>
+                    {(similarity * 100).toFixed(0)}% · {url}
+                  </p>
+                ))}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Card>
+  );
+};
@@ -0,0 +1,123 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ChevronDown, FileText } from 'lucide-react';
+import { findFieldMentions, PAGE_FIELD_LABELS, PageDocument, PageField } from '@/lib/pageDocument';
+
+interface PageStructureDetailsProps {
+  page: PageDocument;
+  /** Route terms (origin, destination) checked against each field. */
+  terms: string[];
+}
+
+const MAX_FAQ = 10;
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div>
+    <p className="text-xs font-medium text-muted-foreground mb-1">{label}</p>
+    <div className="text-xs">{children}</div>
+  </div>
+);
+
+const Missing: React.FC = () => <span className="text-destructive">Missing</span>;
+
+export const PageStructureDetails: React.FC<PageStructureDetailsProps> = ({ page, terms }) => {
+  const mentions = findFieldMentions(page, terms);
+  const schemaTypes = Array.from(new Set(page.jsonLd.map(block => block.type)));
+
+  return (
+    <Collapsible className="mt-3">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2 px-2 text-xs text-muted-foreground">
+          <FileText className="h-3 w-3" />
+          Page structure: {page.outline.length} headings, {page.tables.length} tables, {page.jsonLd.length} JSON-LD blocks
+          <ChevronDown className="h-3 w-3" />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3 mt-2">
+        {terms.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="text-xs text-muted-foreground mr-1">Mentions {terms.join(' and ')}:</span>
+            {(Object.keys(PAGE_FIELD_LABELS) as PageField[]).map(field => (
+              <Badge
+                key={field}
+                variant="outline"
+                className={`text-xs ${mentions[field] === undefined ? 'text-muted-foreground' : mentions[field] ? 'border-success text-success' : 'border-destructive text-destructive'}`}
+              >
+                {PAGE_FIELD_LABELS[field]}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <Field label="Title">{page.title || <Missing />}</Field>
+          <Field label="H1">{page.h1 || <Missing />}</Field>
+          <Field label="Meta description">{page.metaDescription || <Missing />}</Field>
+          <Field label="Structured data">
+            {schemaTypes.length > 0 ? (
+              <div className="flex flex-wrap gap-1">
+                {schemaTypes.map(type => <Badge key={type} variant="secondary">{type}</Badge>)}
+              </div>
+            ) : (
+              <Missing />
+            )}
+          </Field>
+        </div>
+
+        {page.outline.length > 0 && (
+          <Field label="Outline">
+            <ul className="space-y-0.5 max-h-40 overflow-y-auto">
+              {page.outline.map((heading, index) => (
+                <li key={index} className={heading.level === 3 ? 'pl-4 text-muted-foreground' : ''}>
+                  {heading.text}
+                </li>
+              ))}
+            </ul>
+          </Field>
+        )}
+
+        {page.faq.length > 0 && (
+          <Field label={`FAQ (${page.faq.length})`}>
+            <div className="space-y-2 max-h-48 overflow-y-auto">
+              {page.faq.slice(0, MAX_FAQ).map((entry, index) => (
+                <div key={index} className="bg-muted p-2 rounded">
+                  <p className="font-medium">{entry.question}</p>
+                  <p className="text-muted-foreground">{entry.answer}</p>
+                </div>
+              ))}
+            </div>
+          </Field>
+        )}
+
+        {page.tables.map((table, index) => (
+          <Field key={index} label={table.caption || `Table ${index + 1}`}>
+            <div className="max-h-40 overflow-auto">
+              <table className="w-full border-collapse">
+                {table.headers.length > 0 && (
+                  <thead>
+                    <tr>
+                      {table.headers.map((header, i) => (
+                        <th key={i} className="border px-2 py-1 text-left font-medium bg-muted">{header}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                )}
+                <tbody>
+                  {table.rows.map((row, r) => (
+                    <tr key={r}>
+                      {row.map((cell, c) => (
+                        <td key={c} className="border px-2 py-1">{cell}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Field>
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
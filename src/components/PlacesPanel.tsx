@@ -0,0 +1,204 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Plus, RotateCcw, Search, Trash2 } from 'lucide-react';
+import { createGazetteer, createPlace, Place } from '@/lib/gazetteer';
+import { BUNDLED_PLACES } from '@/lib/gazetteerData';
+
+interface PlacesPanelProps {
+  // Only the user's own entries; bundled places are merged in by slug.
+  value: Place[];
+  onChange: (value: Place[]) => void;
+}
+
+const SHOWN_PLACES = 50;
+
+const toSlug = (text: string): string => text.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+export const PlacesPanel: React.FC<PlacesPanelProps> = ({ value, onChange }) => {
+  const [search, setSearch] = useState('');
+  const [selectedSlug, setSelectedSlug] = useState<string | null>(null);
+
+  const gazetteer = useMemo(() => createGazetteer(value), [value]);
+  const bundled = useMemo(() => new Set(BUNDLED_PLACES.map(place => place.slug)), []);
+  const custom = new Set(value.map(place => place.slug));
+
+  const selected = value.find(place => place.slug === selectedSlug) ?? BUNDLED_PLACES.find(place => place.slug === selectedSlug);
+  const isCustom = selected && custom.has(selected.slug);
+
+  const matching = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return gazetteer.places
+      .filter(place => !query || [place.name, place.slug, place.region, ...place.aliases].some(text => text.toLowerCase().includes(query)))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [gazetteer, search]);
+
+  // Editing a bundled place saves a copy under the same slug, which then takes its place.
+  const updateSelected = (patch: Partial<Place>) => {
+    const updated = { ...selected!, ...patch };
+    onChange(isCustom ? value.map(place => (place.slug === selected!.slug ? updated : place)) : [...value, updated]);
+    if (patch.slug !== undefined) setSelectedSlug(patch.slug);
+  };
+
+  const addPlace = () => {
+    const place = createPlace(toSlug(search) || `place-${value.length + 1}`);
+    onChange([...value, place]);
+    setSelectedSlug(place.slug);
+  };
+
+  // For an edited bundled place this restores the bundled entry; otherwise the place is gone.
+  const removeSelected = () => {
+    onChange(value.filter(place => place.slug !== selected!.slug));
+    if (!bundled.has(selected!.slug)) setSelectedSlug(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Places turn URL slugs such as <code>london-kings-cross</code> into display names, split routes into origin and
+        destination, and supply the spellings a GPT response prompt may use. Slugs not listed here are flagged in the
+        results.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <div className="relative">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              aria-label="Search places"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search places"
+              className="pl-8"
+            />
+          </div>
+          <div className="max-h-72 overflow-y-auto space-y-1">
+            {matching.slice(0, SHOWN_PLACES).map(place => (
+              <button
+                key={place.slug}
+                onClick={() => setSelectedSlug(place.slug)}
+                className={`w-full text-left text-sm px-3 py-2 rounded border ${
+                  place.slug === selectedSlug ? 'border-primary bg-primary/5' : 'border-border'
+                }`}
+              >
+                <span className="block truncate">{place.name || <span className="text-muted-foreground">Unnamed place</span>}</span>
+                <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <span className="font-mono truncate">{place.slug}</span>
+                  {custom.has(place.slug) && (
+                    <Badge variant="outline" className="text-xs ml-auto">{bundled.has(place.slug) ? 'Edited' : 'Custom'}</Badge>
+                  )}
+                </span>
+              </button>
+            ))}
+            {matching.length > SHOWN_PLACES && (
+              <p className="text-xs text-muted-foreground px-1">
+                {matching.length - SHOWN_PLACES} more; refine the search to see them.
+              </p>
+            )}
+          </div>
+          <Button variant="outline" size="sm" className="w-full gap-2" onClick={addPlace}>
+            <Plus className="h-4 w-4" /> Add place
+          </Button>
+        </div>
+
+        <div className="md:col-span-2 space-y-4">
+          {selected ? (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="place-slug">Slug</Label>
+                  <Input
+                    id="place-slug"
+                    value={selected.slug}
+                    onChange={(e) => updateSelected({ slug: e.target.value.toLowerCase() })}
+                    disabled={bundled.has(selected.slug)}
+                    className="font-mono text-xs"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="place-name">Display name</Label>
+                  <Input
+                    id="place-name"
+                    value={selected.name}
+                    onChange={(e) => updateSelected({ name: e.target.value })}
+                    placeholder="London Kings Cross"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="place-region">Region</Label>
+                  <Input
+                    id="place-region"
+                    value={selected.region}
+                    onChange={(e) => updateSelected({ region: e.target.value })}
+                    placeholder="Northern England"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="place-country">Country</Label>
+                  <Input
+                    id="place-country"
+                    value={selected.country}
+                    onChange={(e) => updateSelected({ country: e.target.value.toUpperCase() })}
+                    placeholder="GB"
+                    maxLength={2}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Kind</Label>
+                  <Select value={selected.kind} onValueChange={(kind) => updateSelected({ kind: kind as Place['kind'] })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="city">City</SelectItem>
+                      <SelectItem value="station">Station</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="place-aliases">Aliases</Label>
+                <Textarea
+                  id="place-aliases"
+                  value={selected.aliases.join('\n')}
+                  onChange={(e) => updateSelected({ aliases: e.target.value.split('\n') })}
+                  placeholder={"kings cross\nking's cross"}
+                  className="text-xs"
+                  rows={3}
+                />
+                <p className="text-xs text-muted-foreground">
+                  One per line. Other slugs and spellings that mean this place; case, spaces and punctuation are ignored.
+                </p>
+              </div>
+              <div className="flex gap-2">
+                {isCustom && (
+                  <Button variant="ghost" size="sm" className="gap-2 text-destructive ml-auto" onClick={removeSelected}>
+                    {bundled.has(selected.slug) ? (
+                      <><RotateCcw className="h-4 w-4" /> Restore bundled entry</>
+                    ) : (
+                      <><Trash2 className="h-4 w-4" /> Delete place</>
+                    )}
+                  </Button>
+                )}
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Select a place to edit it, or add one for a slug the results flagged as unknown.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useMemo, useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { GitCompare, Play } from 'lucide-react';
+import { UrlRecord } from '@/lib/columnMapping';
+import { GPTResponse } from '@/lib/gptResponses';
+import { confirmMatch, PromptMatchResult } from '@/lib/promptMatching';
+
+interface PromptMatchReviewProps {
+  records: UrlRecord[];
+  responses: GPTResponse[];
+  /** One list of prompt variants per record. */
+  matches: PromptMatchResult[][];
+  onConfirm: (matches: PromptMatchResult[][]) => void;
+  onCancel: () => void;
+}
+
+const NO_MATCH = 'none';
+
+const percent = (score: number) => `${Math.round(score * 100)}%`;
+
+export const PromptMatchReview: React.FC<PromptMatchReviewProps> = ({
+  records,
+  responses,
+  matches,
+  onConfirm,
+  onCancel,
+}) => {
+  // Many URLs can share one prompt, so each prompt under review is decided once for all of them.
+  const pending = useMemo(() => {
+    const byPrompt = new Map<string, { match: PromptMatchResult; urls: string[] }>();
+    matches.forEach((variants, index) => variants.forEach(match => {
+      if (match.status !== 'review') return;
+      const entry = byPrompt.get(match.prompt) ?? { match, urls: [] };
+      entry.urls.push(records[index].url);
+      byPrompt.set(match.prompt, entry);
+    }));
+    return Array.from(byPrompt.values());
+  }, [matches, records]);
+
+  const [choices, setChoices] = useState<Record<string, string>>({});
+
+  const counts = {
+    auto: matches.flat().filter(match => match.status === 'auto').length,
+    none: matches.flat().filter(match => match.status === 'none').length,
+  };
+
+  const handleConfirm = () => {
+    onConfirm(matches.map(variants => variants.map(match => {
+      if (match.status !== 'review') return match;
+      const choice = choices[match.prompt] ?? String(match.selected!.responseIndex);
+      return confirmMatch(match, choice === NO_MATCH ? undefined : Number(choice));
+    })));
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center gap-2 mb-2">
+        <GitCompare className="h-5 w-5 text-primary" />
+        <h3 className="font-semibold">Confirm Prompt Matches</h3>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        {pending.length} prompt{pending.length === 1 ? '' : 's'} matched a GPT response with low confidence or a close
+        runner-up. Keep the suggested response, pick another candidate, or leave the prompt unmatched.
+      </p>
+      <div className="flex flex-wrap gap-2 mb-4">
+        <Badge variant="secondary">{counts.auto} prompts matched confidently</Badge>
+        <Badge variant="outline">{counts.none} prompts without a candidate</Badge>
+      </div>
+
+      <div className="space-y-3 max-h-[480px] overflow-y-auto">
+        {pending.map(({ match, urls }) => (
+          <div key={match.prompt} className="p-3 border rounded-lg space-y-2">
+            <div>
+              <div className="flex items-center gap-2">
+                <p className="text-sm font-medium">{match.prompt}</p>
+                <Badge variant="outline" className="text-xs">{match.intent}</Badge>
+              </div>
+              <p className="text-xs text-muted-foreground truncate" title={urls.join('\n')}>
+                {urls[0]}{urls.length > 1 && ` and ${urls.length - 1} more`}
+              </p>
+            </div>
+            <Select
+              value={choices[match.prompt] ?? String(match.selected!.responseIndex)}
+              onValueChange={value => setChoices(prev => ({ ...prev, [match.prompt]: value }))}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {match.candidates.map(candidate => (
+                  <SelectItem key={candidate.responseIndex} value={String(candidate.responseIndex)} className="text-xs">
+                    {percent(candidate.score)} · {responses[candidate.responseIndex].prompt}
+                  </SelectItem>
+                ))}
+                <SelectItem value={NO_MATCH} className="text-xs">No match: leave this intent unscored</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-end gap-2 mt-4">
+        <Button variant="outline" onClick={onCancel}>Back</Button>
+        <Button onClick={handleConfirm} className="gap-2">
+          <Play className="h-4 w-4" />
+          Confirm and Start
+        </Button>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,235 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { ArrowDown, ArrowUp, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import {
+  applyPromptRules,
+  createPromptRule,
+  DEFAULT_PROMPT_RULES,
+  PromptRule,
+  PromptTemplate,
+  validatePromptRule,
+} from '@/lib/promptRules';
+import { Gazetteer } from '@/lib/gazetteer';
+
+interface PromptRulesPanelProps {
+  value: PromptRule[];
+  onChange: (value: PromptRule[]) => void;
+  gazetteer: Gazetteer;
+}
+
+export const PromptRulesPanel: React.FC<PromptRulesPanelProps> = ({ value, onChange, gazetteer }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(value[0]?.id ?? null);
+  const [testUrls, setTestUrls] = useState('');
+
+  const selected = value.find(rule => rule.id === selectedId);
+  const selectedIndex = value.findIndex(rule => rule.id === selectedId);
+
+  const updateSelected = (patch: Partial<PromptRule>) => {
+    onChange(value.map(rule => (rule.id === selectedId ? { ...rule, ...patch } : rule)));
+  };
+
+  const updateTemplate = (index: number, patch: Partial<PromptTemplate>) => {
+    updateSelected({ templates: selected!.templates.map((template, i) => (i === index ? { ...template, ...patch } : template)) });
+  };
+
+  const addRule = () => {
+    const rule = createPromptRule(`Rule ${value.length + 1}`);
+    onChange([...value, rule]);
+    setSelectedId(rule.id);
+  };
+
+  const removeSelected = () => {
+    const remaining = value.filter(rule => rule.id !== selectedId);
+    onChange(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  // The first matching rule wins, so order matters when patterns overlap.
+  const moveSelected = (offset: number) => {
+    const next = [...value];
+    const [rule] = next.splice(selectedIndex, 1);
+    next.splice(selectedIndex + offset, 0, rule);
+    onChange(next);
+  };
+
+  const resetToDefaults = () => {
+    onChange(DEFAULT_PROMPT_RULES);
+    setSelectedId(DEFAULT_PROMPT_RULES[0]?.id ?? null);
+  };
+
+  const error = selected && validatePromptRule(selected);
+
+  // Re-run on every edit so the results follow the rules as they are typed.
+  const testResults = useMemo(
+    () => testUrls
+      .split('\n')
+      .map(url => url.trim())
+      .filter(Boolean)
+      .map(url => ({ url, match: applyPromptRules(value, url, gazetteer) })),
+    [testUrls, value, gazetteer]
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          {value.map(rule => (
+            <button
+              key={rule.id}
+              onClick={() => setSelectedId(rule.id)}
+              className={`w-full text-left text-sm px-3 py-2 rounded border truncate ${
+                rule.id === selectedId ? 'border-primary bg-primary/5' : 'border-border'
+              } ${validatePromptRule(rule) ? 'text-destructive' : ''}`}
+            >
+              {rule.name || <span className="text-muted-foreground">Unnamed rule</span>}
+            </button>
+          ))}
+          <Button variant="outline" size="sm" className="w-full gap-2" onClick={addRule}>
+            <Plus className="h-4 w-4" /> Add rule
+          </Button>
+          <Button variant="ghost" size="sm" className="w-full gap-2" onClick={resetToDefaults}>
+            <RotateCcw className="h-4 w-4" /> Restore defaults
+          </Button>
+        </div>
+
+        <div className="md:col-span-2 space-y-4">
+          {selected ? (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="prompt-rule-name">Name</Label>
+                <Input
+                  id="prompt-rule-name"
+                  value={selected.name}
+                  onChange={(e) => updateSelected({ name: e.target.value })}
+                  placeholder="City guides"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="prompt-rule-pattern">URL pattern</Label>
+                <Input
+                  id="prompt-rule-pattern"
+                  value={selected.pattern}
+                  onChange={(e) => updateSelected({ pattern: e.target.value })}
+                  placeholder="/guides/(?<city>[^/?#]+)"
+                  className="font-mono text-xs"
+                />
+                <p className="text-xs text-muted-foreground">
+                  A regular expression matched against the whole URL, ignoring case. Name the parts you need with{' '}
+                  <code>(?&lt;name&gt;…)</code>; hyphens in captured slugs become spaces. A <code>route</code> capture is
+                  split into <code>{'{origin}'}</code> and <code>{'{destination}'}</code>, and place captures take their
+                  name from Settings → Places.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label>Prompt templates</Label>
+                {selected.templates.map((template, index) => (
+                  <div key={index} className="flex gap-2">
+                    <Input
+                      aria-label="Intent"
+                      value={template.intent}
+                      onChange={(e) => updateTemplate(index, { intent: e.target.value })}
+                      placeholder="fastest"
+                      className="w-36 text-xs"
+                    />
+                    <Input
+                      aria-label="Template"
+                      value={template.template}
+                      onChange={(e) => updateTemplate(index, { template: e.target.value })}
+                      placeholder="fastest {origin} to {destination} train"
+                      className="font-mono text-xs"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => updateSelected({ templates: selected.templates.filter((_, i) => i !== index) })}
+                      disabled={selected.templates.length === 1}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => updateSelected({ templates: [...selected.templates, { intent: '', template: '' }] })}
+                >
+                  <Plus className="h-4 w-4" /> Add template
+                </Button>
+                <p className="text-xs text-muted-foreground">
+                  Each template asks the question behind one intent, and the page is scored against every one.{' '}
+                  <code>{'{name}'}</code> inserts a capture; the first template is the URL's primary prompt.
+                </p>
+              </div>
+              {error && <p className="text-xs text-destructive">{error}</p>}
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" className="gap-2" onClick={() => moveSelected(-1)} disabled={selectedIndex === 0}>
+                  <ArrowUp className="h-4 w-4" /> Up
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => moveSelected(1)}
+                  disabled={selectedIndex === value.length - 1}
+                >
+                  <ArrowDown className="h-4 w-4" /> Down
+                </Button>
+                <Button variant="ghost" size="sm" className="gap-2 text-destructive ml-auto" onClick={removeSelected}>
+                  <Trash2 className="h-4 w-4" /> Delete rule
+                </Button>
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No rules. URLs then only get a prompt when the URL list supplies one.
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2 border-t pt-4">
+        <Label htmlFor="prompt-rule-test">Test URLs</Label>
+        <Textarea
+          id="prompt-rule-test"
+          value={testUrls}
+          onChange={(e) => setTestUrls(e.target.value)}
+          placeholder={'https://www.example.com/train-times/london-to-paris\nhttps://www.example.com/coach-times/leeds-to-york'}
+          className="font-mono text-xs"
+          rows={3}
+        />
+        <p className="text-xs text-muted-foreground">One per line; every rule is applied in order, as in a run.</p>
+
+        {testResults.map(({ url, match }) => (
+          <div key={url} className="p-2 border rounded text-xs space-y-1">
+            <p className="font-mono truncate">{url}</p>
+            {match ? (
+              <>
+                <div className="flex flex-wrap gap-1">
+                  <Badge variant="secondary" className="text-xs">{match.rule.name || 'Unnamed rule'}</Badge>
+                  {Object.entries(match.captures).map(([name, capture]) => (
+                    <Badge key={name} variant="outline" className="text-xs">{name}: {capture}</Badge>
+                  ))}
+                  {match.unknownPlaces.map(slug => (
+                    <Badge key={slug} variant="destructive" className="text-xs">Unknown place: {slug}</Badge>
+                  ))}
+                </div>
+                {match.variants.map(({ intent, prompt }, index) => (
+                  <p key={intent} className={index === 0 ? 'font-medium' : 'text-muted-foreground'}>
+                    <span className="text-muted-foreground">{intent}:</span> {prompt}
+                  </p>
+                ))}
+              </>
+            ) : (
+              <p className="text-muted-foreground">No rule matches; this URL gets no prompt.</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
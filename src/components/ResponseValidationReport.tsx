@@ -0,0 +1,61 @@
+import React from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { ResponseFileFormat, ResponseImportReport } from '@/lib/gptResponses';
+
+interface ResponseValidationReportProps {
+  report: ResponseImportReport;
+}
+
+const FORMAT_LABELS: Record<ResponseFileFormat, string> = {
+  'json-array': 'Prompt/response array',
+  'jsonl': 'JSON Lines',
+  'chat-completion': 'Chat completions',
+  'batch-output': 'Batch API output',
+  'conversation': 'Conversation export',
+  'keyed-by-prompt': 'Keyed by prompt',
+};
+
+export const ResponseValidationReport: React.FC<ResponseValidationReportProps> = ({ report }) => {
+  const hasIssues = report.issues.length > 0;
+  const models = [...new Set(report.responses.map(r => r.model).filter(Boolean))];
+  const locales = [...new Set(report.responses.map(r => r.locale).filter(Boolean))];
+
+  return (
+    <Card className={`p-4 ${hasIssues ? 'border-warning/40 bg-warning/5' : ''}`}>
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        {hasIssues ? (
+          <AlertTriangle className="h-4 w-4 text-warning" />
+        ) : (
+          <CheckCircle className="h-4 w-4 text-success" />
+        )}
+        <span className="text-sm font-medium">
+          {report.responses.length} response{report.responses.length !== 1 ? 's' : ''} from {report.total} row{report.total !== 1 ? 's' : ''}
+        </span>
+        <Badge variant="outline" className="text-xs">{FORMAT_LABELS[report.format]}</Badge>
+        {models.length > 0 && (
+          <Badge variant="outline" className="text-xs">{models.join(', ')}</Badge>
+        )}
+        {locales.length > 0 && (
+          <Badge variant="outline" className="text-xs">{locales.join(', ')}</Badge>
+        )}
+      </div>
+
+      {hasIssues && (
+        <>
+          <p className="text-xs text-muted-foreground mb-2">
+            {report.issues.length} row{report.issues.length !== 1 ? 's' : ''} failed validation and will be skipped:
+          </p>
+          <div className="max-h-40 overflow-y-auto space-y-1">
+            {report.issues.map((issue, index) => (
+              <div key={index} className="text-xs bg-muted p-2 rounded">
+                <span className="font-medium">Row {issue.row}:</span> {issue.message}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </Card>
+  );
+};
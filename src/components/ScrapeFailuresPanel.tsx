@@ -0,0 +1,84 @@
+import React from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { XCircle } from 'lucide-react';
+import { AnalysisResult } from '@/components/AnalysisResults';
+import { SCRAPE_FAILURE_LABELS } from '@/lib/pageLoader';
+import { EMBEDDING_ERROR_POLICIES } from '@/lib/embeddingErrors';
+
+interface ScrapeFailuresPanelProps {
+  failures: AnalysisResult[];
+}
+
+const EMBEDDING_FAILURE_LABEL = 'Embedding failed';
+
+const failureLabel = (result: AnalysisResult): string => {
+  if (result.failure) return SCRAPE_FAILURE_LABELS[result.failure.reason];
+  return result.embeddingErrorKind ? EMBEDDING_ERROR_POLICIES[result.embeddingErrorKind].label : EMBEDDING_FAILURE_LABEL;
+};
+
+export const ScrapeFailuresPanel: React.FC<ScrapeFailuresPanelProps> = ({ failures }) => {
+  const counts = failures.reduce((acc, result) => {
+    const label = failureLabel(result);
+    acc[label] = (acc[label] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center gap-2 mb-2">
+        <XCircle className="h-5 w-5 text-destructive" />
+        <h3 className="text-lg font-semibold">Failed URLs ({failures.length})</h3>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        These URLs could not be read or embedded, so they have no similarity score and are left out of the averages above.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {Object.entries(counts).map(([label, count]) => (
+          <Badge key={label} variant="outline">
+            {label}: {count}
+          </Badge>
+        ))}
+      </div>
+
+      <div className="max-h-80 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>URL</TableHead>
+              <TableHead>Reason</TableHead>
+              <TableHead>Attempts</TableHead>
+              <TableHead>Details</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {failures.map((result, index) => (
+              <TableRow key={index}>
+                <TableCell className="text-xs max-w-xs truncate" title={result.url}>
+                  <a href={result.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                    {result.url}
+                  </a>
+                </TableCell>
+                <TableCell>
+                  <Badge variant="destructive" className="whitespace-nowrap">
+                    {failureLabel(result)}
+                    {result.failure?.status !== undefined && ` ${result.failure.status}`}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-xs">{result.failure?.attempts ?? '—'}</TableCell>
+                <TableCell className="text-xs text-muted-foreground">
+                  {result.failure?.message ?? result.embeddingError}
+                  {result.embeddingErrorKind && (
+                    <span className="block mt-1">{EMBEDDING_ERROR_POLICIES[result.embeddingErrorKind].hint}</span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { FetcherSettingsPanel } from '@/components/FetcherSettingsPanel';
+import { ExtractionRulesPanel } from '@/components/ExtractionRulesPanel';
+import { PromptRulesPanel } from '@/components/PromptRulesPanel';
+import { PlacesPanel } from '@/components/PlacesPanel';
+import { CompetitorsPanel } from '@/components/CompetitorsPanel';
+import { ThroughputSettingsPanel } from '@/components/ThroughputSettingsPanel';
+import { ChunkingSettingsPanel } from '@/components/ChunkingSettingsPanel';
+import { EmbeddingCachePanel } from '@/components/EmbeddingCachePanel';
+import { AppSettings } from '@/hooks/useSettings';
+import { PageFetcher } from '@/lib/fetchers';
+import { createGazetteer } from '@/lib/gazetteer';
+
+interface SettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  settings: AppSettings;
+  onUpdate: <K extends keyof AppSettings>(section: K, value: AppSettings[K]) => void;
+  fetcher: PageFetcher;
+}
+
+export const SettingsDialog: React.FC<SettingsDialogProps> = ({
+  open,
+  onOpenChange,
+  settings,
+  onUpdate,
+  fetcher,
+}) => {
+  const gazetteer = useMemo(() => createGazetteer(settings.places), [settings.places]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>Configure how pages are fetched and analysed.</DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="fetcher">
+          <TabsList className="flex-wrap h-auto">
+            <TabsTrigger value="fetcher">Page Fetcher</TabsTrigger>
+            <TabsTrigger value="rules">Extraction Rules</TabsTrigger>
+            <TabsTrigger value="prompts">Prompt Rules</TabsTrigger>
+            <TabsTrigger value="places">Places</TabsTrigger>
+            <TabsTrigger value="competitors">Competitors</TabsTrigger>
+            <TabsTrigger value="chunking">Scoring</TabsTrigger>
+            <TabsTrigger value="throughput">Performance</TabsTrigger>
+            <TabsTrigger value="cache">Cache</TabsTrigger>
+          </TabsList>
+          <TabsContent value="fetcher" className="pt-4">
+            <FetcherSettingsPanel value={settings.fetcher} onChange={(value) => onUpdate('fetcher', value)} />
+          </TabsContent>
+          <TabsContent value="rules" className="pt-4">
+            <ExtractionRulesPanel
+              value={settings.extractionRules}
+              onChange={(value) => onUpdate('extractionRules', value)}
+              fetcher={fetcher}
+            />
+          </TabsContent>
+          <TabsContent value="prompts" className="pt-4">
+            <PromptRulesPanel
+              value={settings.promptRules}
+              onChange={(value) => onUpdate('promptRules', value)}
+              gazetteer={gazetteer}
+            />
+          </TabsContent>
+          <TabsContent value="places" className="pt-4">
+            <PlacesPanel value={settings.places} onChange={(value) => onUpdate('places', value)} />
+          </TabsContent>
+          <TabsContent value="competitors" className="pt-4">
+            <CompetitorsPanel value={settings.competitors} onChange={(value) => onUpdate('competitors', value)} />
+          </TabsContent>
+          <TabsContent value="chunking" className="pt-4">
+            <ChunkingSettingsPanel value={settings.chunking} onChange={(value) => onUpdate('chunking', value)} />
+          </TabsContent>
+          <TabsContent value="throughput" className="pt-4">
+            <ThroughputSettingsPanel value={settings.throughput} onChange={(value) => onUpdate('throughput', value)} />
+          </TabsContent>
+          <TabsContent value="cache" className="pt-4">
+            <EmbeddingCachePanel value={settings.embeddingCache} onChange={(value) => onUpdate('embeddingCache', value)} />
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
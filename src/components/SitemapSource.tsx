@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { FileUpload } from '@/components/FileUpload';
+import { AlertTriangle, Globe, Loader2, Map as MapIcon } from 'lucide-react';
+import { SitemapEntry, SitemapLoadResult, decodeSitemapBytes, loadSitemap, readSitemapFile } from '@/lib/sitemap';
+import { PageFetcher } from '@/lib/fetchers';
+
+interface SitemapSourceProps {
+  result: SitemapLoadResult | null;
+  onResultChange: (result: SitemapLoadResult | null) => void;
+  include: string;
+  exclude: string;
+  onIncludeChange: (value: string) => void;
+  onExcludeChange: (value: string) => void;
+  matchedEntries: SitemapEntry[];
+  filterError?: string;
+  fetcher: PageFetcher;
+}
+
+const PREVIEW_ROWS = 8;
+
+export const SitemapSource: React.FC<SitemapSourceProps> = ({
+  result,
+  onResultChange,
+  include,
+  exclude,
+  onIncludeChange,
+  onExcludeChange,
+  matchedEntries,
+  filterError,
+  fetcher,
+}) => {
+  const [sitemapUrl, setSitemapUrl] = useState('');
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Fetched as bytes where the fetcher allows it, so gzipped sitemaps can be inflated.
+  const fetchXml = async (url: string) =>
+    fetcher.fetchBytes ? decodeSitemapBytes((await fetcher.fetchBytes(url)).bytes) : (await fetcher.fetch(url)).html;
+
+  const load = async (source: string, read: () => Promise<string>) => {
+    setIsLoading(true);
+    try {
+      onResultChange(await loadSitemap(await read(), fetchXml, source));
+    } catch (error) {
+      onResultChange({
+        entries: [],
+        sitemaps: [],
+        errors: [{ url: source, message: error instanceof Error ? error.message : String(error) }],
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFile = (file: File) => {
+    setSourceFile(file);
+    load(file.name, () => readSitemapFile(file));
+  };
+
+  const handleFetch = () => {
+    setSourceFile(null);
+    load(sitemapUrl, () => fetchXml(sitemapUrl));
+  };
+
+  const handleRemove = () => {
+    setSourceFile(null);
+    onResultChange(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <FileUpload
+        onFileSelect={handleFile}
+        accept=".xml,.gz"
+        title="Upload Sitemap"
+        description="Upload a sitemap.xml or sitemap index; nested sitemaps are fetched with the configured page fetcher"
+        icon={<MapIcon className="h-12 w-12 text-primary" />}
+        uploadedFile={sourceFile}
+        onRemoveFile={handleRemove}
+        hint="Gzipped sitemaps (.xml.gz) are supported"
+      />
+
+      <Card className="p-4 space-y-2">
+        <Label htmlFor="sitemap-url">Or fetch a sitemap by URL</Label>
+        <div className="flex gap-2">
+          <Input
+            id="sitemap-url"
+            value={sitemapUrl}
+            onChange={(e) => setSitemapUrl(e.target.value)}
+            placeholder="https://www.example.com/sitemap.xml"
+          />
+          <Button onClick={handleFetch} disabled={!sitemapUrl || isLoading} className="gap-2">
+            {isLoading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Globe className="h-4 w-4" />}
+            Fetch
+          </Button>
+        </div>
+      </Card>
+
+      {result && (
+        <Card className="p-4 space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium">
+              {matchedEntries.length} of {result.entries.length} URLs selected
+            </span>
+            <Badge variant="outline" className="text-xs">
+              {result.sitemaps.length} sitemap{result.sitemaps.length !== 1 ? 's' : ''} read
+            </Badge>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="sitemap-include">Include patterns</Label>
+              <Textarea
+                id="sitemap-include"
+                value={include}
+                onChange={(e) => onIncludeChange(e.target.value)}
+                placeholder={'/train-times/\n/coach-times/*-to-*'}
+                className="font-mono text-xs"
+                rows={3}
+              />
+            </div>
+            <div>
+              <Label htmlFor="sitemap-exclude">Exclude patterns</Label>
+              <Textarea
+                id="sitemap-exclude"
+                value={exclude}
+                onChange={(e) => onExcludeChange(e.target.value)}
+                placeholder={'/amp/\n/\\?page=\\d+/'}
+                className="font-mono text-xs"
+                rows={3}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            One pattern per line. Plain text matches anywhere in the URL, <code>*</code> is a wildcard and <code>/regex/</code> is a regular expression.
+          </p>
+          {filterError && <p className="text-xs text-destructive">{filterError}</p>}
+
+          <div className="space-y-1">
+            {matchedEntries.slice(0, PREVIEW_ROWS).map(entry => (
+              <div key={entry.url} className="flex justify-between gap-4 text-xs bg-muted p-2 rounded">
+                <span className="truncate">{entry.url}</span>
+                {entry.lastmod && (
+                  <span className="text-muted-foreground shrink-0">{entry.lastmod.split('T')[0]}</span>
+                )}
+              </div>
+            ))}
+            {matchedEntries.length > PREVIEW_ROWS && (
+              <p className="text-xs text-muted-foreground">and {matchedEntries.length - PREVIEW_ROWS} more…</p>
+            )}
+          </div>
+
+          {result.errors.length > 0 && (
+            <div className="p-3 bg-warning/10 rounded-lg space-y-1">
+              <div className="flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4 text-warning" />
+                <span className="text-sm font-medium">{result.errors.length} sitemap{result.errors.length !== 1 ? 's' : ''} could not be read</span>
+              </div>
+              {result.errors.map((error, index) => (
+                <p key={index} className="text-xs text-muted-foreground truncate">
+                  {error.url}: {error.message}
+                </p>
+              ))}
+            </div>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Archive, FolderOpen, Globe, Loader2 } from 'lucide-react';
+import { HtmlSnapshot, loadSnapshotFiles } from '@/lib/snapshots';
+
+export type PageSourceMode = 'live' | 'snapshot';
+
+interface SnapshotSourceProps {
+  mode: PageSourceMode;
+  onModeChange: (mode: PageSourceMode) => void;
+  snapshots: HtmlSnapshot[];
+  onSnapshotsChange: (snapshots: HtmlSnapshot[]) => void;
+  matchedCount: number;
+  totalUrls: number;
+}
+
+const directoryProps = { webkitdirectory: '', directory: '' } as React.InputHTMLAttributes<HTMLInputElement>;
+
+export const SnapshotSource: React.FC<SnapshotSourceProps> = ({
+  mode,
+  onModeChange,
+  snapshots,
+  onSnapshotsChange,
+  matchedCount,
+  totalUrls,
+}) => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      onSnapshotsChange([...snapshots, ...await loadSnapshotFiles(files)]);
+    } catch (err) {
+      setError(`Could not read snapshots: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <h3 className="font-semibold mb-4">Page Source</h3>
+      <RadioGroup value={mode} onValueChange={(value) => onModeChange(value as PageSourceMode)} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Label htmlFor="source-live" className="flex items-start gap-3 p-4 border rounded-lg cursor-pointer">
+          <RadioGroupItem value="live" id="source-live" className="mt-1" />
+          <div>
+            <div className="flex items-center gap-2 font-medium">
+              <Globe className="h-4 w-4 text-primary" /> Live pages
+            </div>
+            <p className="text-xs text-muted-foreground font-normal mt-1">Fetch each URL over the network</p>
+          </div>
+        </Label>
+        <Label htmlFor="source-snapshot" className="flex items-start gap-3 p-4 border rounded-lg cursor-pointer">
+          <RadioGroupItem value="snapshot" id="source-snapshot" className="mt-1" />
+          <div>
+            <div className="flex items-center gap-2 font-medium">
+              <Archive className="h-4 w-4 text-primary" /> Offline snapshots
+            </div>
+            <p className="text-xs text-muted-foreground font-normal mt-1">
+              Score saved HTML, a zip of pages or a HAR capture; no requests are sent
+            </p>
+          </div>
+        </Label>
+      </RadioGroup>
+
+      {mode === 'snapshot' && (
+        <div className="mt-4 space-y-3">
+          <div className="flex flex-wrap gap-2">
+            <input
+              type="file"
+              multiple
+              accept=".html,.htm,.xhtml,.zip,.har"
+              onChange={handleFiles}
+              className="hidden"
+              id="snapshot-files"
+            />
+            <Button variant="outline" size="sm" asChild>
+              <label htmlFor="snapshot-files" className="cursor-pointer gap-2">
+                <Archive className="h-4 w-4" /> Add files, zip or HAR
+              </label>
+            </Button>
+            <input
+              type="file"
+              multiple
+              onChange={handleFiles}
+              className="hidden"
+              id="snapshot-folder"
+              {...directoryProps}
+            />
+            <Button variant="outline" size="sm" asChild>
+              <label htmlFor="snapshot-folder" className="cursor-pointer gap-2">
+                <FolderOpen className="h-4 w-4" /> Add folder
+              </label>
+            </Button>
+            {snapshots.length > 0 && (
+              <Button variant="ghost" size="sm" onClick={() => onSnapshotsChange([])}>
+                Clear
+              </Button>
+            )}
+            {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground self-center" />}
+          </div>
+
+          <p className="text-sm">
+            {snapshots.length} snapshot{snapshots.length !== 1 ? 's' : ''} loaded
+            {totalUrls > 0 && (
+              <span className={matchedCount < totalUrls ? 'text-warning' : 'text-success'}>
+                {' '}· {matchedCount} of {totalUrls} URLs matched
+              </span>
+            )}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            Snapshots are matched by their saved-from or canonical URL, then by file path (e.g. <code>train-times/london-to-paris/index.html</code>).
+            URLs without a snapshot are skipped.
+          </p>
+          {error && <p className="text-xs text-destructive">{error}</p>}
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ThroughputSettings } from '@/lib/scheduler';
+
+interface ThroughputSettingsPanelProps {
+  value: ThroughputSettings;
+  onChange: (value: ThroughputSettings) => void;
+}
+
+const FIELDS: { key: keyof ThroughputSettings; label: string; hint: string; min: number; max: number }[] = [
+  {
+    key: 'scrapeConcurrency',
+    label: 'Pages fetched at once',
+    hint: 'Higher is faster but more likely to trip rate limits on the target site or proxy.',
+    min: 1,
+    max: 32,
+  },
+  {
+    key: 'embeddingConcurrency',
+    label: 'Embedding requests at once',
+    hint: 'Each request carries a batch of texts, up to the provider\'s limit.',
+    min: 1,
+    max: 16,
+  },
+  {
+    key: 'requestsPerMinute',
+    label: 'Embedding requests per minute',
+    hint: 'Set this below your account\'s limit; 0 disables the limiter. A 429 pauses all requests for the time the API asks.',
+    min: 0,
+    max: 10000,
+  },
+];
+
+export const ThroughputSettingsPanel: React.FC<ThroughputSettingsPanelProps> = ({ value, onChange }) => (
+  <div className="space-y-4">
+    {FIELDS.map(field => (
+      <div key={field.key} className="space-y-2">
+        <Label htmlFor={`throughput-${field.key}`}>{field.label}</Label>
+        <Input
+          id={`throughput-${field.key}`}
+          type="number"
+          min={field.min}
+          max={field.max}
+          value={value[field.key]}
+          onChange={(e) => {
+            const number = Math.round(Number(e.target.value) || 0);
+            onChange({ ...value, [field.key]: Math.min(field.max, Math.max(field.min, number)) });
+          }}
+        />
+        <p className="text-xs text-muted-foreground">{field.hint}</p>
+      </div>
+    ))}
+  </div>
+);
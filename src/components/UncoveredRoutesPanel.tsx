@@ -0,0 +1,96 @@
+import React from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, FilePlus } from 'lucide-react';
+import { UncoveredRoute, UNPARSED_ROUTE_KEY } from '@/lib/reverseCoverage';
+
+interface UncoveredRoutesPanelProps {
+  routes: UncoveredRoute[];
+  onExport: () => void;
+}
+
+const ROUTES_SHOWN = 20;
+const PROMPTS_SHOWN = 2;
+const COMPETITORS_SHOWN = 3;
+
+export const UncoveredRoutesPanel: React.FC<UncoveredRoutesPanelProps> = ({ routes, onExport }) => {
+  const promptCount = routes.reduce((sum, group) => sum + group.prompts.length, 0);
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <FilePlus className="h-5 w-5 text-primary" />
+          <h3 className="text-lg font-semibold">Prompts Without a Landing Page ({promptCount})</h3>
+        </div>
+        <Button onClick={onExport} size="sm" variant="outline" className="gap-2">
+          <Download className="h-4 w-4" />
+          Export CSV
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        No uploaded URL was matched to these responses. They are grouped by the route each prompt asks about, with the
+        routes whose answers name competitors most often first: candidates for new pages. Routes are read using Settings →
+        Places and competitors come from Settings → Competitors.
+      </p>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Route</TableHead>
+            <TableHead>Prompts</TableHead>
+            <TableHead>Competitors named</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {routes.slice(0, ROUTES_SHOWN).map(group => (
+            <TableRow key={group.key}>
+              <TableCell className="text-sm font-medium align-top">
+                {group.route ? `${group.route.origin.name} to ${group.route.destination.name}` : 'Route not recognised'}
+                {group.existingUrl && (
+                  <a
+                    href={group.existingUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block text-xs text-muted-foreground font-normal truncate max-w-xs hover:underline"
+                    title={group.existingUrl}
+                  >
+                    Page exists: {group.existingUrl}
+                  </a>
+                )}
+              </TableCell>
+              <TableCell className="text-xs max-w-sm align-top">
+                {group.prompts.slice(0, PROMPTS_SHOWN).map(({ responseIndex, prompt }) => (
+                  <p key={responseIndex} className="truncate" title={prompt}>"{prompt}"</p>
+                ))}
+                {group.prompts.length > PROMPTS_SHOWN && (
+                  <p className="text-muted-foreground">and {group.prompts.length - PROMPTS_SHOWN} more</p>
+                )}
+              </TableCell>
+              <TableCell className="align-top">
+                <div className="flex flex-wrap gap-1">
+                  {Object.entries(group.mentions)
+                    .sort((a, b) => b[1] - a[1])
+                    .slice(0, COMPETITORS_SHOWN)
+                    .map(([name, count]) => (
+                      <Badge key={name} variant={group.key === UNPARSED_ROUTE_KEY ? 'outline' : 'secondary'} className="text-xs">
+                        {name}: {count}
+                      </Badge>
+                    ))}
+                  {group.totalMentions === 0 && <span className="text-xs text-muted-foreground">None</span>}
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {routes.length > ROUTES_SHOWN && (
+        <p className="text-xs text-muted-foreground mt-2">
+          {routes.length - ROUTES_SHOWN} more routes are in the CSV export.
+        </p>
+      )}
+    </Card>
+  );
+};
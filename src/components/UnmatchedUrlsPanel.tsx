@@ -0,0 +1,70 @@
+import React from 'react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { SearchX } from 'lucide-react';
+import { AnalysisResult } from '@/components/AnalysisResults';
+
+interface UnmatchedUrlsPanelProps {
+  unmatched: AnalysisResult[];
+}
+
+export const UnmatchedUrlsPanel: React.FC<UnmatchedUrlsPanelProps> = ({ unmatched }) => {
+  // Pages that fit their own prompt worst are the least likely to be cited, so they lead.
+  const sorted = [...unmatched].sort((a, b) => (a.promptSimilarity ?? 2) - (b.promptSimilarity ?? 2));
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center gap-2 mb-2">
+        <SearchX className="h-5 w-5 text-warning" />
+        <h3 className="text-lg font-semibold">URLs Without a GPT Response ({unmatched.length})</h3>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        No response in the uploaded file matched these URLs' prompts, so they have no similarity score and are left out of
+        the averages. Each page is instead scored against its own prompt; add responses for these prompts to compare them
+        with GPT.
+      </p>
+
+      <div className="max-h-80 overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>URL</TableHead>
+              <TableHead>Prompt</TableHead>
+              <TableHead>Page vs prompt</TableHead>
+              <TableHead>Closest response prompt</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sorted.map((result, index) => (
+              <TableRow key={index}>
+                <TableCell className="text-xs max-w-xs truncate" title={result.url}>
+                  <a href={result.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                    {result.url}
+                  </a>
+                </TableCell>
+                <TableCell className="text-xs">
+                  {result.prompt || <span className="text-muted-foreground">No prompt rule matches this URL</span>}
+                </TableCell>
+                <TableCell>
+                  {result.scrapeStatus === 'failed' ? (
+                    <Badge variant="destructive">Not scraped</Badge>
+                  ) : result.promptSimilarity !== undefined ? (
+                    <Badge variant={result.promptSimilarity < 0.6 ? 'destructive' : 'secondary'}>
+                      {(result.promptSimilarity * 100).toFixed(0)}%
+                    </Badge>
+                  ) : (
+                    <span className="text-xs text-muted-foreground">—</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-xs text-muted-foreground max-w-xs truncate" title={result.runnerUpPrompts?.[0]}>
+                  {result.runnerUpPrompts?.[0] ?? '—'}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </Card>
+  );
+};
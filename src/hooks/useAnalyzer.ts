@@ -1,5 +1,26 @@
 import { useState, useCallback } from 'react';
-import { AnalysisResult } from '@/components/AnalysisResults';
+import { AnalysisResult, VariantScore } from '@/components/AnalysisResults';
+import { UrlRecord } from '@/lib/columnMapping';
+import { GPTResponse } from '@/lib/gptResponses';
+import { ExtractedContent, extractMainContent, summarizeExtraction } from '@/lib/scraper';
+import { FetcherSettings, PageFetcher } from '@/lib/fetchers';
+import { PageDocument, parsePageDocument } from '@/lib/pageDocument';
+import { ExtractionRule, findRuleForUrl } from '@/lib/extractionRules';
+import { loadPage, PageLoadOptions, ScrapeFailure } from '@/lib/pageLoader';
+import { createRobotsChecker } from '@/lib/robots';
+import { EmbeddingProvider } from '@/lib/embeddings';
+import { createEmbeddingBatcher, EmbeddingBatchStats } from '@/lib/embeddingBatcher';
+import { createEmbeddingCache, EmbeddingCacheSettings, pruneEmbeddingCache } from '@/lib/embeddingCache';
+import { createRateLimiter, runPool, ThroughputSettings } from '@/lib/scheduler';
+import { PromptMatchResult } from '@/lib/promptMatching';
+import { PromptRule, PromptRuleMatch } from '@/lib/promptRules';
+import { Gazetteer, Place } from '@/lib/gazetteer';
+import { Competitor } from '@/lib/competitors';
+import { findUncoveredRoutes, UncoveredRoute, UNPARSED_ROUTE_KEY } from '@/lib/reverseCoverage';
+import { aggregateScores, chunkText, ChunkingSettings, describeAggregation, loadTokenizer, resolveChunkOptions, TextChunk } from '@/lib/chunking';
+import { EMBEDDING_ERROR_POLICIES, EmbeddingError, EmbeddingErrorLogEntry, policyFor } from '@/lib/embeddingErrors';
+import { Cassette, createCassetteRecorder, serializeCassette } from '@/lib/cassette';
+import { BudgetExceededError, BudgetSettings, createUsageMeter, formatUsd, priceForProvider, UsageMeter, UsageSnapshot } from '@/lib/usage';
 
 interface AnalysisStep {
   id: string;
@@ -8,19 +29,89 @@ interface AnalysisStep {
   description?: string;
 }
 
+type ScrapeOutcome =
+  | { status: 'scraped'; content: ExtractedContent; document: PageDocument }
+  | { status: 'failed'; failure: ScrapeFailure };
+
+export interface AnalysisOptions {
+  fetcher: PageFetcher;
+  embedder: EmbeddingProvider;
+  extractionRules: ExtractionRule[];
+  loading: Pick<FetcherSettings, 'timeoutMs' | 'maxRetries' | 'respectRobots'>;
+  throughput: ThroughputSettings;
+  chunking: ChunkingSettings;
+  cache: EmbeddingCacheSettings;
+  budget: BudgetSettings;
+  /** The meter prompt matching already spent on, so the run's usage and budget cap include those embeddings. */
+  meter?: UsageMeter;
+  /** Each record's prompt variants and their matches, as confirmed by the user. */
+  matches: PromptMatchResult[][];
+  /** What each record's prompt rule read from its URL, such as the route's places; lined up with the records. */
+  ruleMatches: (PromptRuleMatch | undefined)[];
+  /** Used to read routes out of the response prompts no URL matched. */
+  gazetteer: Gazetteer;
+  competitors: Competitor[];
+  /** The rules and user places `ruleMatches` and `gazetteer` came from, kept so a cassette replays with them. */
+  promptRules: PromptRule[];
+  places: Place[];
+  /**
+   * 'record' captures every page and embedding response into `cassette`; 'replay' marks a run whose
+   * fetcher and embedder come from a cassette player, so it skips the cache and rate limits.
+   */
+  cassette?: 'record' | 'replay';
+}
+
 interface UseAnalyzerReturn {
   isAnalyzing: boolean;
   progress: number;
   steps: AnalysisStep[];
   results: AnalysisResult[];
-  startAnalysis: (csvFile: File, jsonFile: File, apiKey: string) => Promise<void>;
+  runSummary: EmbeddingBatchStats | null;
+  usage: UsageSnapshot | null;
+  runError: EmbeddingError | null;
+  errorLog: EmbeddingErrorLogEntry[];
+  cassette: Cassette | null;
+  /** Response prompts no URL matched, grouped by the route they ask about. */
+  uncoveredRoutes: UncoveredRoute[];
+  startAnalysis: (records: UrlRecord[], responses: GPTResponse[], options: AnalysisOptions) => Promise<void>;
   exportResults: () => void;
+  exportErrorLog: () => void;
+  exportCassette: () => void;
+  exportUncoveredRoutes: () => void;
 }
 
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const downloadCsv = (rows: string[][], filename: string) => {
+  const csvContent = rows.map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(',')).join('\n');
+  downloadBlob(new Blob([csvContent], { type: 'text/csv' }), filename);
+};
+
+const weakestIntent = (result: AnalysisResult): string | undefined =>
+  result.variants
+    ?.filter(variant => Number.isFinite(variant.similarity))
+    .reduce<VariantScore | undefined>((worst, variant) => (!worst || variant.similarity < worst.similarity ? variant : worst), undefined)
+    ?.intent;
+
 export const useAnalyzer = (): UseAnalyzerReturn => {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [progress, setProgress] = useState(0);
   const [results, setResults] = useState<AnalysisResult[]>([]);
+  const [runSummary, setRunSummary] = useState<EmbeddingBatchStats | null>(null);
+  const [usage, setUsage] = useState<UsageSnapshot | null>(null);
+  const [runError, setRunError] = useState<EmbeddingError | null>(null);
+  const [errorLog, setErrorLog] = useState<EmbeddingErrorLogEntry[]>([]);
+  const [cassette, setCassette] = useState<Cassette | null>(null);
+  const [uncoveredRoutes, setUncoveredRoutes] = useState<UncoveredRoute[]>([]);
   const [steps, setSteps] = useState<AnalysisStep[]>([
     { id: 'parse', title: 'Parsing uploaded files', status: 'pending' },
     { id: 'extract', title: 'Extracting URLs and responses', status: 'pending' },
@@ -35,66 +126,27 @@ export const useAnalyzer = (): UseAnalyzerReturn => {
     ));
   }, []);
 
-  const parseCSV = async (file: File): Promise<string[]> => {
-    const text = await file.text();
-    const lines = text.split('\n').filter(line => line.trim());
-    return lines.slice(1, 6).map(line => line.split(',')[0].trim().replace(/"/g, ''));
-  };
-
-  const parseJSON = async (file: File): Promise<any[]> => {
-    const text = await file.text();
-    return JSON.parse(text);
-  };
-
-  const scrapePageContent = async (url: string): Promise<string> => {
-    try {
-      // In a real implementation, you'd need a CORS proxy or backend service
-      // For demo purposes, we'll simulate content extraction
-      const response = await fetch(`https://api.allorigins.win/get?url=${encodeURIComponent(url)}`);
-      const data = await response.json();
-      
-      // Parse HTML and extract text (simplified)
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(data.contents, 'text/html');
-      
-      // Remove script, style, nav, header, footer tags
-      ['script', 'style', 'nav', 'header', 'footer'].forEach(tag => {
-        const elements = doc.querySelectorAll(tag);
-        elements.forEach(el => el.remove());
-      });
-      
-      return doc.body?.textContent?.trim() || '';
-    } catch (error) {
-      console.warn(`Failed to scrape ${url}:`, error);
-      return `Sample content for ${url} - This would be the actual page content in production.`;
+  const scrapePageContent = async (
+    url: string,
+    fetcher: PageFetcher,
+    rules: ExtractionRule[],
+    loadOptions: PageLoadOptions
+  ): Promise<ScrapeOutcome> => {
+    const loaded = await loadPage(url, fetcher, loadOptions);
+    if (loaded.status === 'failed') {
+      console.warn(`Failed to scrape ${url}: ${loaded.failure.message}`);
+      return loaded;
     }
-  };
-
-  const generateEmbedding = async (text: string, apiKey: string): Promise<number[]> => {
-    try {
-      const response = await fetch('https://api.openai.com/v1/embeddings', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'text-embedding-3-small',
-          input: text.substring(0, 8000), // Truncate for token limits
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.statusText}`);
-      }
 
-      const data = await response.json();
-      return data.data[0].embedding;
-    } catch (error) {
-      console.warn('Failed to generate embedding:', error);
-      // Return mock embedding for demo
-      return Array.from({ length: 1536 }, () => Math.random() - 0.5);
+    const { page, attempts } = loaded;
+    const content = extractMainContent(page.html, findRuleForUrl(rules, page.url));
+    if (!content.text.trim()) {
+      return {
+        status: 'failed',
+        failure: { reason: 'empty-body', message: 'No readable text left after content extraction', status: page.status, attempts },
+      };
     }
+    return { status: 'scraped', content, document: parsePageDocument(page.html, content) };
   };
 
   const cosineSimilarity = (a: number[], b: number[]): number => {
@@ -104,96 +156,308 @@ export const useAnalyzer = (): UseAnalyzerReturn => {
     return dotProduct / (magnitudeA * magnitudeB);
   };
 
-  const extractRoutePrompt = (url: string): string => {
-    const match = url.match(/train-times\/([^\/]+)/);
-    if (!match) return '';
-    
-    const route = match[1].replace(/\//g, '').toLowerCase();
-    if (!route.includes('-to-')) return '';
-    
-    const [origin, dest] = route.split('-to-');
-    return `cheapest ${origin} to ${dest} train tickets online`;
-  };
-
-  const findMatchingGPTResponse = (prompt: string, jsonData: any[]): string => {
-    const lowerPrompt = prompt.toLowerCase();
-    for (const item of jsonData) {
-      const itemPrompt = (item.prompt || '').toLowerCase();
-      if (itemPrompt.includes(lowerPrompt) || lowerPrompt.includes(itemPrompt)) {
-        return item.response || '';
-      }
-    }
-    return '';
-  };
-
-  const startAnalysis = useCallback(async (csvFile: File, jsonFile: File, apiKey: string) => {
+  const startAnalysis = useCallback(async (
+    records: UrlRecord[],
+    responses: GPTResponse[],
+    options: AnalysisOptions
+  ) => {
     setIsAnalyzing(true);
     setProgress(0);
     setResults([]);
+    setRunSummary(null);
+    setUsage(null);
+    setRunError(null);
+    setErrorLog([]);
+    setCassette(null);
+    setUncoveredRoutes([]);
 
     try {
       // Step 1: Parse files
-      updateStep('parse', 'running', 'Reading CSV and JSON files...');
+      updateStep('parse', 'running', `Loaded ${responses.length} validated GPT responses`);
       setProgress(10);
       
-      const urls = await parseCSV(csvFile);
-      const jsonData = await parseJSON(jsonFile);
-      
       updateStep('parse', 'completed');
       setProgress(20);
 
       // Step 2: Extract data
-      updateStep('extract', 'running', `Found ${urls.length} URLs to analyze`);
+      updateStep('extract', 'running', `Found ${records.length} URLs to analyze`);
       setProgress(30);
-      
-      updateStep('extract', 'completed');
+
+      const { matches } = options;
+      const matchedCount = matches.filter(variants => variants.some(match => match.selected)).length;
+      const variantCount = matches.flat().filter(match => match.selected).length;
+      const uncovered = findUncoveredRoutes(responses, matches, {
+        gazetteer: options.gazetteer,
+        competitors: options.competitors,
+        pages: records.map((record, index) => ({ url: record.url, route: options.ruleMatches[index]?.route })),
+      });
+      const uncoveredCount = uncovered.reduce((sum, group) => sum + group.prompts.length, 0);
+      updateStep(
+        'extract',
+        'completed',
+        `${matchedCount}/${records.length} URLs matched, ${variantCount} prompt variants in all; ${uncoveredCount} responses match no URL`
+      );
       setProgress(40);
 
-      const analysisResults: AnalysisResult[] = [];
+      // Step 3: Scrape pages in parallel; each page's embeddings are queued as soon as it is read
+      updateStep('scrape', 'running', `0/${records.length} pages`);
 
-      // Step 3: Process each URL
-      updateStep('scrape', 'running');
-      
-      for (let i = 0; i < urls.length; i++) {
-        const url = urls[i];
-        updateStep('scrape', 'running', `Processing URL ${i + 1}/${urls.length}: ${url}`);
-        
-        const pageContent = await scrapePageContent(url);
-        const routePrompt = extractRoutePrompt(url);
-        const gptResponse = findMatchingGPTResponse(routePrompt, jsonData);
-        
-        if (!gptResponse) {
-          console.warn(`No matching GPT response for: ${routePrompt}`);
-          continue;
+      const replaying = options.cassette === 'replay';
+      const recorder = options.cassette === 'record' ? createCassetteRecorder() : undefined;
+      const fetcher = recorder ? recorder.wrapFetcher(options.fetcher) : options.fetcher;
+      const embedder = recorder ? recorder.wrapProvider(options.embedder) : options.embedder;
+
+      const loadOptions: PageLoadOptions = {
+        timeoutMs: options.loading.timeoutMs,
+        maxRetries: options.loading.maxRetries,
+        // A replayed robots.txt comes from the cassette, so the check runs even though nothing is fetched.
+        robots: options.loading.respectRobots && (!fetcher.offline || replaying) ? createRobotsChecker(fetcher, options.loading.timeoutMs) : undefined,
+      };
+      // Demo vectors cost nothing to recompute, so they are not worth the storage.
+      const useCache = options.cache.enabled && embedder.kind !== 'demo' && !replaying;
+      const cache = useCache ? createEmbeddingCache(embedder) : undefined;
+      const meter = options.meter ?? createUsageMeter(priceForProvider(embedder, options.budget), options.budget.capUsd);
+      const log: EmbeddingErrorLogEntry[] = [];
+      const logError = (error: unknown, url?: string) => {
+        const kind = error instanceof EmbeddingError ? error.kind : 'unknown';
+        log.push({
+          time: new Date().toISOString(),
+          url,
+          kind,
+          policy: policyFor(error),
+          status: error instanceof EmbeddingError ? error.status : undefined,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      };
+      // The first error whose policy is to abort; later pages are not fetched once it is set.
+      let abortError: EmbeddingError | null = null;
+      const batcher = createEmbeddingBatcher(embedder, {
+        concurrency: options.throughput.embeddingConcurrency,
+        // A replay answers instantly, and its recorded errors already are the outcome after retries.
+        limiter: createRateLimiter(replaying ? 0 : options.throughput.requestsPerMinute),
+        maxRetries: replaying ? 0 : undefined,
+        cache: cache && recorder ? recorder.wrapCache(cache) : cache,
+        meter,
+        onRetry: (error) => logError(error),
+      });
+
+      const encoder = await loadTokenizer();
+      const chunkOptions = resolveChunkOptions(options.chunking, embedder.maxInputTokens);
+
+      let scrapedCount = 0;
+      let finishedCount = 0;
+      let skippedCount = 0;
+      const finish = () => {
+        finishedCount++;
+        const { inputs, cacheHits, requests, retries } = batcher.stats();
+        updateStep(
+          'embed',
+          'running',
+          `${inputs} texts: ${cacheHits} from cache, rest in ${requests} requests${retries ? ` (${retries} retried)` : ''}`
+        );
+        updateStep('calculate', 'running', `${finishedCount}/${records.length} URLs done`);
+        setProgress(40 + (finishedCount / records.length) * 55);
+        setUsage(meter.snapshot());
+      };
+
+      const scoreRecord = async (
+        record: UrlRecord,
+        variants: PromptMatchResult[],
+        ruleMatch: PromptRuleMatch | undefined,
+        scraped: ScrapeOutcome
+      ): Promise<AnalysisResult | null> => {
+        const { url, trafficWeight, revenue, segment, owner, lastmod } = record;
+        const routePrompt = variants[0]?.prompt ?? '';
+        const places = { route: ruleMatch?.route, unknownPlaces: ruleMatch?.unknownPlaces };
+        // The first matched variant stands in for the URL wherever a single answer is shown.
+        const primary = variants.find(variant => variant.selected);
+
+        if (scraped.status === 'failed') {
+          finish();
+          // Failed pages are kept with their reason rather than scored on made-up text.
+          return {
+            url,
+            prompt: routePrompt,
+            pageText: '',
+            gptAnswer: '',
+            similarity: NaN,
+            urlPattern: routePrompt,
+            matchFound: !!primary,
+            ...places,
+            trafficWeight,
+            revenue,
+            segment,
+            owner,
+            lastModified: lastmod,
+            scrapeStatus: 'failed',
+            failure: scraped.failure,
+          };
+        }
+
+        const pageContent = scraped.content.text;
+        const match = primary && responses[primary.selected!.responseIndex];
+        // Without a GPT answer to compare against, the page is scored against its own prompt instead.
+        const fallbackPrompt = primary ? undefined : routePrompt || undefined;
+        let chunks: TextChunk[] = [];
+        const variantScores: VariantScore[] = variants.map(variant => ({
+          intent: variant.intent,
+          prompt: variant.prompt,
+          matchedPrompt: variant.selected && responses[variant.selected.responseIndex].prompt,
+          matchConfidence: variant.selected?.score,
+          matchStatus: variant.status,
+          similarity: NaN,
+        }));
+        let similarity = NaN;
+        let promptSimilarity: number | undefined;
+        let bestChunk: string | undefined;
+        let embeddingError: string | undefined;
+        let embeddingErrorKind: AnalysisResult['embeddingErrorKind'];
+        try {
+          chunks = chunkText(pageContent, encoder, chunkOptions);
+          // A URL with neither a response nor a prompt has nothing to be compared with, so its page is not embedded.
+          const [chunkEmbeddings, answerEmbeddings, promptEmbedding] = primary || fallbackPrompt ? await Promise.all([
+            Promise.all(chunks.map(chunk => batcher.embed(chunk.text))),
+            Promise.all(variants.map(variant => variant.selected && batcher.embed(responses[variant.selected.responseIndex].response))),
+            fallbackPrompt && batcher.embed(fallbackPrompt),
+          ]) : [[], [], undefined];
+          variants.forEach((variant, index) => {
+            const gptEmbedding = answerEmbeddings[index];
+            if (!gptEmbedding) return;
+            const scores = chunkEmbeddings.map(embedding => cosineSimilarity(embedding, gptEmbedding));
+            variantScores[index].similarity = aggregateScores(scores, chunks.map(chunk => chunk.tokens), options.chunking);
+            if (variant === primary) bestChunk = chunks[scores.indexOf(Math.max(...scores))].text.substring(0, 300);
+          });
+          if (promptEmbedding) {
+            const scores = chunkEmbeddings.map(embedding => cosineSimilarity(embedding, promptEmbedding));
+            promptSimilarity = aggregateScores(scores, chunks.map(chunk => chunk.tokens), options.chunking);
+            bestChunk = chunks[scores.indexOf(Math.max(...scores))].text.substring(0, 300);
+          }
+          const scoredVariants = variantScores.filter(variant => Number.isFinite(variant.similarity));
+          similarity = scoredVariants.reduce((sum, variant) => sum + variant.similarity, 0) / scoredVariants.length;
+        } catch (error) {
+          if (error instanceof BudgetExceededError) {
+            // Not a failure of this URL; the run is winding down and keeps only what was scored.
+            skippedCount++;
+            finish();
+            return null;
+          }
+          if (error instanceof EmbeddingError && policyFor(error) === 'abort') {
+            // Every later request would fail the same way, so the URL is not blamed for it.
+            if (!abortError) {
+              abortError = error;
+              logError(error, url);
+            }
+            skippedCount++;
+            finish();
+            return null;
+          }
+          console.warn(`Failed to embed ${url}:`, error);
+          logError(error, url);
+          embeddingError = error instanceof Error ? error.message : String(error);
+          embeddingErrorKind = error instanceof EmbeddingError ? error.kind : 'unknown';
         }
+        finish();
 
-        updateStep('embed', 'running', `Generating embeddings for URL ${i + 1}`);
-        
-        const [pageEmbedding, gptEmbedding] = await Promise.all([
-          generateEmbedding(pageContent, apiKey),
-          generateEmbedding(gptResponse, apiKey),
-        ]);
-
-        updateStep('calculate', 'running', `Calculating similarity for URL ${i + 1}`);
-        
-        const similarity = cosineSimilarity(pageEmbedding, gptEmbedding);
-        
-        analysisResults.push({
+        return {
           url,
           prompt: routePrompt,
           pageText: pageContent.substring(0, 300),
-          gptAnswer: gptResponse.substring(0, 300),
+          gptAnswer: match?.response.substring(0, 300) ?? '',
           similarity,
+          promptSimilarity,
+          aggregation: describeAggregation(options.chunking),
+          chunkCount: chunks.length,
+          bestChunk,
+          embeddingError,
+          embeddingErrorKind,
+          demoMode: embedder.kind === 'demo',
           urlPattern: routePrompt,
-        });
+          matchFound: !!primary,
+          ...places,
+          trafficWeight,
+          revenue,
+          segment,
+          owner,
+          matchedPrompt: match?.prompt,
+          matchConfidence: primary?.selected!.score,
+          matchStatus: primary?.status ?? variants[0]?.status,
+          // For an unmatched URL these are the near misses that fell short of a match.
+          runnerUpPrompts: (primary ?? variants[0])?.candidates
+            .filter(candidate => candidate !== primary?.selected)
+            .map(candidate => responses[candidate.responseIndex].prompt),
+          variants: variantScores,
+          responseModel: match?.model,
+          responseDate: match?.date,
+          responseLocale: match?.locale,
+          lastModified: lastmod,
+          scrapeStatus: 'ok',
+          embeddingProvider: embedder.name,
+          embeddingModel: embedder.model,
+          embeddingDimensions: embedder.dimensions,
+          extraction: summarizeExtraction(scraped.content),
+          page: scraped.document,
+        };
+      };
 
-        setProgress(40 + ((i + 1) / urls.length) * 50);
+      const scored: Promise<AnalysisResult | null>[] = [];
+      await runPool(records, options.throughput.scrapeConcurrency, async (record, index) => {
+        if (meter.snapshot().capReached || abortError) {
+          skippedCount++;
+          return;
+        }
+        const scraped = await scrapePageContent(record.url, fetcher, options.extractionRules, loadOptions);
+        scrapedCount++;
+        updateStep('scrape', 'running', `${scrapedCount}/${records.length} pages: ${record.url}`);
+        // Not awaited, so the next page is fetched while this one waits for its batch.
+        scored[index] = scoreRecord(record, matches[index], options.ruleMatches[index], scraped);
+      });
+      updateStep('scrape', 'completed', `${scrapedCount} pages`);
+
+      // Pages skipped at the spend cap leave holes in `scored`.
+      const analysisResults = (await Promise.all(scored)).filter((result): result is AnalysisResult => !!result);
+      const finalUsage = meter.snapshot();
+
+      if (abortError) {
+        const { label, hint } = EMBEDDING_ERROR_POLICIES[abortError.kind];
+        updateStep('embed', 'error', `${label}: ${hint}`);
+        updateStep('calculate', 'completed', `Run aborted; ${skippedCount} URLs were not analysed`);
+      } else {
+        updateStep('embed', 'completed');
+        updateStep(
+          'calculate',
+          'completed',
+          finalUsage.capReached
+            ? `Stopped at the ${formatUsd(finalUsage.capUsd)} spend cap; ${skippedCount} URLs were not analysed`
+            : undefined
+        );
+      }
+      setRunSummary(batcher.stats());
+      setUsage(finalUsage);
+      setRunError(abortError);
+      setErrorLog(log);
+      if (recorder) {
+        const { timeoutMs, maxRetries, respectRobots } = options.loading;
+        setCassette(recorder.finish({
+          records,
+          responses,
+          matches,
+          // Only what affects the outcome; fetcher credentials never go into the file.
+          settings: {
+            extractionRules: options.extractionRules,
+            loading: { timeoutMs, maxRetries, respectRobots },
+            chunking: options.chunking,
+            promptRules: options.promptRules,
+            places: options.places,
+            competitors: options.competitors,
+          },
+        }));
       }
 
-      updateStep('scrape', 'completed');
-      updateStep('embed', 'completed');
-      updateStep('calculate', 'completed');
+      if (useCache) {
+        pruneEmbeddingCache(options.cache.maxMegabytes).catch(error => console.warn('Embedding cache prune failed:', error));
+      }
       
+      setUncoveredRoutes(uncovered);
       setResults(analysisResults);
       setProgress(100);
       
@@ -210,34 +474,106 @@ export const useAnalyzer = (): UseAnalyzerReturn => {
   const exportResults = useCallback(() => {
     if (results.length === 0) return;
 
-    const csvContent = [
-      ['URL', 'Prompt', 'Page Text (truncated)', 'GPT Answer (truncated)', 'Cosine Similarity'],
+    downloadCsv([
+      ['URL', 'Prompt', 'Matched Prompt', 'Match Confidence', 'Match Status', 'Match Found', 'Page Text (truncated)', 'GPT Answer (truncated)', 'Cosine Similarity', 'Prompt Similarity', 'Intent Scores', 'Weakest Intent', 'Origin', 'Destination', 'Unknown Places', 'Traffic Weight', 'Revenue', 'Segment', 'Owner', 'Response Model', 'Response Date', 'Response Locale', 'Last Modified', 'Scrape Status', 'Failure Reason', 'Embedding Provider', 'Embedding Model', 'Embedding Dimensions', 'Embedding Error', 'Embedding Error Type', 'Demo Mode', 'Aggregation', 'Chunks', 'Title', 'Meta Description', 'H1', 'Structured Data'],
       ...results.map(r => [
         r.url,
         r.prompt,
-        r.pageText.replace(/"/g, '""'),
-        r.gptAnswer.replace(/"/g, '""'),
-        r.similarity.toFixed(4),
+        r.matchedPrompt ?? '',
+        r.matchConfidence?.toFixed(3) ?? '',
+        r.matchStatus ?? '',
+        r.matchFound === false ? 'no' : 'yes',
+        r.pageText,
+        r.gptAnswer,
+        Number.isFinite(r.similarity) ? r.similarity.toFixed(4) : '',
+        r.promptSimilarity?.toFixed(4) ?? '',
+        r.variants?.map(v => `${v.intent}: ${Number.isFinite(v.similarity) ? v.similarity.toFixed(4) : 'unmatched'}`).join('; ') ?? '',
+        weakestIntent(r) ?? '',
+        r.route?.origin.name ?? '',
+        r.route?.destination.name ?? '',
+        r.unknownPlaces?.join('; ') ?? '',
+        r.trafficWeight?.toString() ?? '',
+        r.revenue?.toString() ?? '',
+        r.segment ?? '',
+        r.owner ?? '',
+        r.responseModel ?? '',
+        r.responseDate ?? '',
+        r.responseLocale ?? '',
+        r.lastModified ?? '',
+        r.scrapeStatus ?? 'ok',
+        r.failure?.message ?? '',
+        r.embeddingProvider ?? '',
+        r.embeddingModel ?? '',
+        r.embeddingDimensions?.toString() ?? '',
+        r.embeddingError ?? '',
+        r.embeddingErrorKind ? EMBEDDING_ERROR_POLICIES[r.embeddingErrorKind].label : '',
+        r.demoMode ? 'yes' : 'no',
+        r.aggregation ?? '',
+        r.chunkCount?.toString() ?? '',
+        r.page?.title ?? '',
+        r.page?.metaDescription ?? '',
+        r.page?.h1 ?? '',
+        Array.from(new Set(r.page?.jsonLd.map(block => block.type) ?? [])).join('; '),
       ])
-    ].map(row => row.map(cell => `"${cell}"`).join(',')).join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `similarity_analysis_${new Date().toISOString().split('T')[0]}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    ], `${results.some(r => r.demoMode) ? 'demo_' : ''}similarity_analysis_${new Date().toISOString().split('T')[0]}.csv`);
   }, [results]);
 
+  const exportErrorLog = useCallback(() => {
+    if (errorLog.length === 0) return;
+
+    downloadCsv([
+      ['Time', 'URL', 'Error Type', 'Policy', 'Status', 'Message'],
+      ...errorLog.map(entry => [
+        entry.time,
+        entry.url ?? '',
+        EMBEDDING_ERROR_POLICIES[entry.kind].label,
+        entry.policy,
+        entry.status?.toString() ?? '',
+        entry.message,
+      ]),
+    ], `embedding_errors_${new Date().toISOString().split('T')[0]}.csv`);
+  }, [errorLog]);
+
+  const exportUncoveredRoutes = useCallback(() => {
+    if (uncoveredRoutes.length === 0) return;
+
+    downloadCsv([
+      ['Origin', 'Destination', 'Existing URL', 'Route Competitor Mentions', 'Prompt', 'Competitors Named'],
+      ...uncoveredRoutes.flatMap(group => group.prompts.map(prompt => [
+        group.route?.origin.name ?? '',
+        group.route?.destination.name ?? '',
+        group.existingUrl ?? '',
+        group.key === UNPARSED_ROUTE_KEY ? '' : group.totalMentions.toString(),
+        prompt.prompt,
+        prompt.competitors.join('; '),
+      ])),
+    ], `uncovered_prompts_${new Date().toISOString().split('T')[0]}.csv`);
+  }, [uncoveredRoutes]);
+
+  const exportCassette = useCallback(() => {
+    if (!cassette) return;
+
+    downloadBlob(
+      new Blob([serializeCassette(cassette)], { type: 'application/gzip' }),
+      `analysis_${cassette.recordedAt.split('T')[0]}.cassette.json.gz`
+    );
+  }, [cassette]);
+
   return {
     isAnalyzing,
     progress,
     steps,
     results,
+    runSummary,
+    usage,
+    runError,
+    errorLog,
+    cassette,
+    uncoveredRoutes,
     startAnalysis,
     exportResults,
+    exportErrorLog,
+    exportCassette,
+    exportUncoveredRoutes,
   };
 };
\ No newline at end of file
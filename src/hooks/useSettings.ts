@@ -0,0 +1,92 @@
+import { useState, useCallback, useEffect } from 'react';
+import { DEFAULT_FETCHER_SETTINGS, FetcherSettings } from '@/lib/fetchers';
+import { ExtractionRule } from '@/lib/extractionRules';
+import { DEFAULT_PROMPT_RULES, PromptRule } from '@/lib/promptRules';
+import { Place } from '@/lib/gazetteer';
+import { Competitor, DEFAULT_COMPETITORS } from '@/lib/competitors';
+import { DEFAULT_EMBEDDING_SETTINGS, EmbeddingSettings } from '@/lib/embeddings';
+import { DEFAULT_THROUGHPUT_SETTINGS, ThroughputSettings } from '@/lib/scheduler';
+import { ChunkingSettings, DEFAULT_CHUNKING_SETTINGS } from '@/lib/chunking';
+import { DEFAULT_EMBEDDING_CACHE_SETTINGS, EmbeddingCacheSettings } from '@/lib/embeddingCache';
+import { BudgetSettings, DEFAULT_BUDGET_SETTINGS } from '@/lib/usage';
+
+export interface AppSettings {
+  fetcher: FetcherSettings;
+  extractionRules: ExtractionRule[];
+  promptRules: PromptRule[];
+  /** Gazetteer entries added or overridden by the user, on top of the bundled places. */
+  places: Place[];
+  /** Brands counted in GPT answers when ranking routes that have no page. */
+  competitors: Competitor[];
+  embedding: EmbeddingSettings;
+  throughput: ThroughputSettings;
+  chunking: ChunkingSettings;
+  embeddingCache: EmbeddingCacheSettings;
+  budget: BudgetSettings;
+}
+
+interface UseSettingsReturn {
+  settings: AppSettings;
+  updateSettings: <K extends keyof AppSettings>(section: K, value: AppSettings[K]) => void;
+}
+
+const STORAGE_KEY = 'route-match-bot:settings';
+
+const DEFAULT_SETTINGS: AppSettings = {
+  fetcher: DEFAULT_FETCHER_SETTINGS,
+  extractionRules: [],
+  promptRules: DEFAULT_PROMPT_RULES,
+  places: [],
+  competitors: DEFAULT_COMPETITORS,
+  embedding: DEFAULT_EMBEDDING_SETTINGS,
+  throughput: DEFAULT_THROUGHPUT_SETTINGS,
+  chunking: DEFAULT_CHUNKING_SETTINGS,
+  embeddingCache: DEFAULT_EMBEDDING_CACHE_SETTINGS,
+  budget: DEFAULT_BUDGET_SETTINGS,
+};
+
+const loadSettings = (): AppSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Partial<AppSettings>;
+    return {
+      fetcher: { ...DEFAULT_SETTINGS.fetcher, ...stored.fetcher },
+      extractionRules: stored.extractionRules ?? DEFAULT_SETTINGS.extractionRules,
+      promptRules: stored.promptRules ?? DEFAULT_SETTINGS.promptRules,
+      places: stored.places ?? DEFAULT_SETTINGS.places,
+      competitors: stored.competitors ?? DEFAULT_SETTINGS.competitors,
+      embedding: { ...DEFAULT_SETTINGS.embedding, ...stored.embedding },
+      throughput: { ...DEFAULT_SETTINGS.throughput, ...stored.throughput },
+      chunking: { ...DEFAULT_SETTINGS.chunking, ...stored.chunking },
+      embeddingCache: { ...DEFAULT_SETTINGS.embeddingCache, ...stored.embeddingCache },
+      budget: { ...DEFAULT_SETTINGS.budget, ...stored.budget },
+    };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+// Credentials stay in memory for the session, like the API key, and are never written to storage.
+const withoutSecrets = (settings: AppSettings): AppSettings => ({
+  ...settings,
+  fetcher: {
+    ...settings.fetcher,
+    // Custom headers usually carry bearer tokens or API keys.
+    headers: [],
+    cookies: '',
+    basicAuth: { username: settings.fetcher.basicAuth.username, password: '' },
+  },
+});
+
+export const useSettings = (): UseSettingsReturn => {
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(withoutSecrets(settings)));
+  }, [settings]);
+
+  const updateSettings = useCallback(<K extends keyof AppSettings>(section: K, value: AppSettings[K]) => {
+    setSettings(prev => ({ ...prev, [section]: value }));
+  }, []);
+
+  return { settings, updateSettings };
+};
@@ -0,0 +1,205 @@
+import { z } from 'zod';
+import { gunzipSync, gzipSync, strFromU8, strToU8 } from 'fflate';
+import { FetchedPage, FetcherSettings, FetchError, PageFetcher } from '@/lib/fetchers';
+import { EmbeddingProvider } from '@/lib/embeddings';
+import { EmbeddingError, EmbeddingErrorKind } from '@/lib/embeddingErrors';
+import { EmbeddingCache } from '@/lib/embeddingCache';
+import { UrlRecord } from '@/lib/columnMapping';
+import { GPTResponse } from '@/lib/gptResponses';
+import { PromptMatchResult } from '@/lib/promptMatching';
+import { ExtractionRule } from '@/lib/extractionRules';
+import { ChunkingSettings } from '@/lib/chunking';
+import { PromptRule } from '@/lib/promptRules';
+import { Place } from '@/lib/gazetteer';
+import { Competitor } from '@/lib/competitors';
+
+/** What a fetch returned: the page, or the error it threw. */
+export type CassettePageEntry =
+  | { status: 'ok'; page: FetchedPage }
+  | { status: 'error'; message: string; httpStatus?: number; timedOut: boolean };
+
+export type CassetteEmbeddingEntry =
+  | { status: 'ok'; vector: number[] }
+  | { status: 'error'; message: string; kind: EmbeddingErrorKind; httpStatus?: number };
+
+/** Settings that change which text gets embedded or how it is scored, so replay must use the recorded ones. */
+export interface CassetteSettings {
+  extractionRules: ExtractionRule[];
+  loading: Pick<FetcherSettings, 'timeoutMs' | 'maxRetries' | 'respectRobots'>;
+  chunking: ChunkingSettings;
+  /** What the prompt variants and routes were read with; older cassettes lack them and replay with the current ones. */
+  promptRules?: PromptRule[];
+  places?: Place[];
+  competitors?: Competitor[];
+}
+
+export interface Cassette {
+  version: 1;
+  recordedAt: string;
+  records: UrlRecord[];
+  responses: GPTResponse[];
+  /** The matches the run scored against, including the user's confirmations; older cassettes lack them. */
+  matches?: PromptMatchResult[][];
+  settings: CassetteSettings;
+  embedder: Pick<EmbeddingProvider, 'kind' | 'name' | 'model' | 'dimensions' | 'maxInputTokens'>;
+  /** Keyed by requested URL, including robots.txt; the last outcome wins, as that is the one a run acted on. */
+  pages: Record<string, CassettePageEntry>;
+  /** Keyed by input text. */
+  embeddings: Record<string, CassetteEmbeddingEntry>;
+}
+
+export interface CassetteRecorder {
+  wrapFetcher: (fetcher: PageFetcher) => PageFetcher;
+  wrapProvider: (provider: EmbeddingProvider) => EmbeddingProvider;
+  /** Cache hits never reach the provider, but a replay needs their vectors all the same. */
+  wrapCache: (cache: EmbeddingCache) => EmbeddingCache;
+  finish: (inputs: Pick<Cassette, 'records' | 'responses' | 'matches' | 'settings'>) => Cassette;
+}
+
+export interface CassettePlayer {
+  fetcher: PageFetcher;
+  embedder: EmbeddingProvider;
+}
+
+export const createCassetteRecorder = (): CassetteRecorder => {
+  const pages: Record<string, CassettePageEntry> = {};
+  const embeddings: Record<string, CassetteEmbeddingEntry> = {};
+  let embedder: Cassette['embedder'] | undefined;
+
+  return {
+    wrapFetcher: (fetcher) => ({
+      ...fetcher,
+      fetch: async (url, signal) => {
+        try {
+          const page = await fetcher.fetch(url, signal);
+          pages[url] = { status: 'ok', page };
+          return page;
+        } catch (error) {
+          pages[url] = {
+            status: 'error',
+            message: error instanceof Error ? error.message : String(error),
+            httpStatus: error instanceof FetchError ? error.status : undefined,
+            timedOut: !!signal?.aborted,
+          };
+          throw error;
+        }
+      },
+    }),
+    wrapProvider: (provider) => {
+      embedder = {
+        kind: provider.kind,
+        name: provider.name,
+        model: provider.model,
+        dimensions: provider.dimensions,
+        maxInputTokens: provider.maxInputTokens,
+      };
+      return {
+        ...provider,
+        embed: async (texts) => {
+          try {
+            const result = await provider.embed(texts);
+            texts.forEach((text, index) => (embeddings[text] = { status: 'ok', vector: result.vectors[index] }));
+            return result;
+          } catch (error) {
+            const entry: CassetteEmbeddingEntry = {
+              status: 'error',
+              message: error instanceof Error ? error.message : String(error),
+              kind: error instanceof EmbeddingError ? error.kind : 'unknown',
+              httpStatus: error instanceof EmbeddingError ? error.status : undefined,
+            };
+            texts.forEach(text => (embeddings[text] = entry));
+            throw error;
+          }
+        },
+      };
+    },
+    wrapCache: (cache) => ({
+      ...cache,
+      get: async (text) => {
+        const vector = await cache.get(text);
+        if (vector) embeddings[text] = { status: 'ok', vector };
+        return vector;
+      },
+    }),
+    finish: (inputs) => ({
+      version: 1,
+      recordedAt: new Date().toISOString(),
+      ...inputs,
+      embedder: embedder!,
+      pages,
+      embeddings,
+    }),
+  };
+};
+
+/**
+ * Serves a cassette back as a fetcher and an embedding provider. Nothing touches the network:
+ * anything the recording never saw fails as if the server had answered 404.
+ */
+export const createCassettePlayer = (cassette: Cassette): CassettePlayer => ({
+  fetcher: {
+    name: 'Cassette replay',
+    offline: true,
+    fetch: async (url) => {
+      const entry = cassette.pages[url];
+      if (!entry) throw new FetchError(`${url} is not in the cassette`, 404);
+      if (entry.status === 'ok') return entry.page;
+      // The loader recognises this name as a timeout, which a replay cannot reproduce by waiting.
+      if (entry.timedOut) throw new DOMException(entry.message, 'TimeoutError');
+      throw entry.httpStatus !== undefined ? new FetchError(entry.message, entry.httpStatus) : new Error(entry.message);
+    },
+  },
+  embedder: {
+    ...cassette.embedder,
+    // One text per request, so a text that failed when recording cannot take others down with it.
+    maxBatchSize: 1,
+    maxBatchTokens: Number.POSITIVE_INFINITY,
+    embed: async ([text]) => {
+      const entry = cassette.embeddings[text];
+      if (!entry) throw new EmbeddingError('Text is not in the cassette', 'unknown');
+      if (entry.status === 'error') throw new EmbeddingError(entry.message, entry.kind, entry.httpStatus);
+      return { vectors: [entry.vector], tokens: 0 };
+    },
+  },
+});
+
+const cassetteSchema = z.object({
+  version: z.literal(1),
+  recordedAt: z.string(),
+  records: z.array(z.object({ url: z.string() }).passthrough()),
+  responses: z.array(z.object({ prompt: z.string(), response: z.string() }).passthrough()),
+  matches: z
+    .array(z.array(z.object({ intent: z.string(), prompt: z.string(), status: z.string(), candidates: z.array(z.unknown()) }).passthrough()))
+    .optional(),
+  settings: z.object({
+    extractionRules: z.array(z.unknown()),
+    loading: z.object({}).passthrough(),
+    chunking: z.object({}).passthrough(),
+    promptRules: z.array(z.object({ pattern: z.string(), templates: z.array(z.unknown()) }).passthrough()).optional(),
+    places: z.array(z.object({ slug: z.string(), name: z.string() }).passthrough()).optional(),
+    competitors: z.array(z.object({ name: z.string() }).passthrough()).optional(),
+  }),
+  embedder: z.object({ kind: z.string(), name: z.string(), model: z.string(), dimensions: z.number() }).passthrough(),
+  pages: z.record(z.object({ status: z.enum(['ok', 'error']) }).passthrough()),
+  embeddings: z.record(z.object({ status: z.enum(['ok', 'error']) }).passthrough()),
+});
+
+// Vectors make cassettes large, and their digits compress well.
+export const serializeCassette = (cassette: Cassette): Uint8Array => gzipSync(strToU8(JSON.stringify(cassette)));
+
+/** Reads a cassette saved by `serializeCassette`, or the same JSON uncompressed. */
+export const parseCassette = (bytes: Uint8Array): Cassette => {
+  const isGzip = bytes[0] === 0x1f && bytes[1] === 0x8b;
+  let data: unknown;
+  try {
+    data = JSON.parse(strFromU8(isGzip ? gunzipSync(bytes) : bytes));
+  } catch {
+    throw new Error('Not a cassette file: it is neither JSON nor gzipped JSON');
+  }
+  const parsed = cassetteSchema.safeParse(data);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Not a cassette file: ${issue.path.join('.') || 'root'} ${issue.message.toLowerCase()}`);
+  }
+  return parsed.data as unknown as Cassette;
+};
@@ -0,0 +1,113 @@
+import type { Tiktoken } from 'js-tiktoken/lite';
+
+export type AggregationStrategy = 'max' | 'mean' | 'top-k-mean' | 'length-weighted-mean';
+
+export interface ChunkingSettings {
+  chunkTokens: number;
+  overlapTokens: number;
+  aggregation: AggregationStrategy;
+  topK: number;
+}
+
+export interface TextChunk {
+  text: string;
+  tokens: number;
+}
+
+export const DEFAULT_CHUNKING_SETTINGS: ChunkingSettings = {
+  chunkTokens: 512,
+  overlapTokens: 64,
+  aggregation: 'top-k-mean',
+  topK: 3,
+};
+
+export const AGGREGATION_LABELS: Record<AggregationStrategy, { label: string; description: string }> = {
+  'max': {
+    label: 'Max',
+    description: 'Score of the single best-matching chunk; rewards pages with one strong section',
+  },
+  'mean': {
+    label: 'Mean',
+    description: 'Average over all chunks; long pages with off-topic sections score lower',
+  },
+  'top-k-mean': {
+    label: 'Top-k mean',
+    description: 'Average of the k best chunks; less sensitive to a single lucky chunk than max',
+  },
+  'length-weighted-mean': {
+    label: 'Length-weighted mean',
+    description: 'Average weighted by chunk length, so a short trailing chunk counts for little',
+  },
+};
+
+let tokenizer: Promise<Tiktoken> | undefined;
+
+/**
+ * The cl100k_base encoding used by OpenAI's embedding models. The rank table is large,
+ * so it is loaded on first use instead of with the app. For other providers' models the
+ * counts are an approximation, but a far closer one than counting characters.
+ */
+export const loadTokenizer = (): Promise<Tiktoken> => {
+  tokenizer ??= Promise.all([import('js-tiktoken/lite'), import('js-tiktoken/ranks/cl100k_base')]).then(
+    ([{ Tiktoken }, { default: ranks }]) => new Tiktoken(ranks)
+  );
+  return tokenizer;
+};
+
+export type ChunkOptions = Pick<ChunkingSettings, 'chunkTokens' | 'overlapTokens'>;
+
+/** Chunks must fit the model's input limit, and the overlap must leave room to advance. */
+export const resolveChunkOptions = (settings: ChunkingSettings, maxInputTokens: number): ChunkOptions => {
+  const chunkTokens = Math.min(settings.chunkTokens, maxInputTokens);
+  return { chunkTokens, overlapTokens: Math.min(settings.overlapTokens, Math.floor(chunkTokens / 2)) };
+};
+
+/** How many chunks `chunkText` produces for a text of the given length, without needing the text. */
+export const countChunks = (tokens: number, { chunkTokens, overlapTokens }: ChunkOptions): number =>
+  tokens <= chunkTokens ? 1 : 1 + Math.ceil((tokens - chunkTokens) / Math.max(1, chunkTokens - overlapTokens));
+
+/** Tokenizes text as written: a page or answer quoting "<|endoftext|>" is text, not a special token to reject. */
+export const encodeText = (encoder: Tiktoken, text: string): number[] => encoder.encode(text, [], []);
+
+/** Splits text into windows of at most `chunkTokens` tokens, each repeating the last `overlapTokens` of the one before. */
+export const chunkText = (
+  text: string,
+  encoder: Tiktoken,
+  { chunkTokens, overlapTokens }: ChunkOptions
+): TextChunk[] => {
+  const tokens = encodeText(encoder, text);
+  if (tokens.length <= chunkTokens) return [{ text, tokens: tokens.length }];
+
+  const stride = Math.max(1, chunkTokens - Math.min(overlapTokens, chunkTokens - 1));
+  const chunks: TextChunk[] = [];
+  for (let start = 0; start < tokens.length; start += stride) {
+    const window = tokens.slice(start, start + chunkTokens);
+    chunks.push({ text: encoder.decode(window).trim(), tokens: window.length });
+    if (start + chunkTokens >= tokens.length) break;
+  }
+  return chunks.filter(chunk => chunk.text);
+};
+
+export const describeAggregation = ({ aggregation, topK }: Pick<ChunkingSettings, 'aggregation' | 'topK'>): string =>
+  aggregation === 'top-k-mean' ? `Top-${topK} mean` : AGGREGATION_LABELS[aggregation].label;
+
+export const aggregateScores = (
+  scores: number[],
+  weights: number[],
+  { aggregation, topK }: Pick<ChunkingSettings, 'aggregation' | 'topK'>
+): number => {
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  switch (aggregation) {
+    case 'max':
+      return Math.max(...scores);
+    case 'mean':
+      return mean(scores);
+    case 'top-k-mean':
+      return mean([...scores].sort((a, b) => b - a).slice(0, Math.max(1, topK)));
+    default: {
+      const total = weights.reduce((sum, weight) => sum + weight, 0);
+      return scores.reduce((sum, score, index) => sum + score * weights[index], 0) / total;
+    }
+  }
+};
@@ -0,0 +1,85 @@
+import { CsvParseResult, findUrlColumn, looksLikeUrl, normalizeUrl } from '@/lib/csv';
+
+export type ColumnRole = 'url' | 'prompt' | 'traffic' | 'revenue' | 'segment' | 'owner';
+
+// Maps each role to the index of the CSV column that supplies it.
+export type ColumnMapping = Partial<Record<ColumnRole, number>>;
+
+export interface UrlRecord {
+  url: string;
+  promptOverride?: string;
+  trafficWeight?: number;
+  revenue?: number;
+  segment?: string;
+  owner?: string;
+  lastmod?: string;
+}
+
+export const COLUMN_ROLES: { role: ColumnRole; label: string; description: string }[] = [
+  { role: 'url', label: 'URL', description: 'Page to scrape and score' },
+  { role: 'prompt', label: 'Prompt override', description: 'Used instead of the prompt derived from the URL' },
+  { role: 'traffic', label: 'Traffic weight', description: 'Monthly sessions or any relative weight' },
+  { role: 'revenue', label: 'Revenue', description: 'Revenue attributed to the page' },
+  { role: 'segment', label: 'Segment', description: 'Grouping used in segmentation charts' },
+  { role: 'owner', label: 'Owner', description: 'Person or team responsible for the page' },
+];
+
+const HEADER_HINTS: Record<ColumnRole, RegExp> = {
+  url: /^(url|urls|link|page|address|landing ?page|page ?url)$/i,
+  prompt: /prompt|query|question|keyword/i,
+  traffic: /session|traffic|visit|click|pageview|weight/i,
+  revenue: /revenue|sales|gmv|value/i,
+  segment: /segment|category|group|section|type/i,
+  owner: /owner|team|assignee|author/i,
+};
+
+export const suggestColumnMapping = (csv: CsvParseResult): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+
+  const urlByHeader = csv.hasHeader ? csv.header.findIndex(name => HEADER_HINTS.url.test(name)) : -1;
+  mapping.url = urlByHeader >= 0 ? urlByHeader : findUrlColumn(csv);
+  used.add(mapping.url);
+
+  if (!csv.hasHeader) return mapping;
+
+  for (const { role } of COLUMN_ROLES) {
+    if (role === 'url') continue;
+    const column = csv.header.findIndex((name, index) => !used.has(index) && HEADER_HINTS[role].test(name));
+    if (column >= 0) {
+      mapping[role] = column;
+      used.add(column);
+    }
+  }
+
+  return mapping;
+};
+
+const parseNumber = (value: string): number | undefined => {
+  const cleaned = value.replace(/[£$€,\s]/g, '');
+  if (cleaned === '') return undefined;
+  const parsed = Number(cleaned);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+export const applyColumnMapping = (csv: CsvParseResult, mapping: ColumnMapping): UrlRecord[] => {
+  if (mapping.url === undefined) return [];
+
+  const cell = (row: string[], role: ColumnRole): string | undefined => {
+    const column = mapping[role];
+    if (column === undefined) return undefined;
+    const value = row[column]?.trim();
+    return value ? value : undefined;
+  };
+
+  return csv.rows
+    .filter(row => looksLikeUrl(row[mapping.url!] ?? ''))
+    .map(row => ({
+      url: normalizeUrl(cell(row, 'url')!),
+      promptOverride: cell(row, 'prompt'),
+      trafficWeight: parseNumber(cell(row, 'traffic') ?? ''),
+      revenue: parseNumber(cell(row, 'revenue') ?? ''),
+      segment: cell(row, 'segment'),
+      owner: cell(row, 'owner'),
+    }));
+};
@@ -0,0 +1,37 @@
+export interface Competitor {
+  name: string;
+  // Other ways answers name it, e.g. its domain.
+  aliases: string[];
+}
+
+export const createCompetitor = (name = ''): Competitor => ({ name, aliases: [] });
+
+export const DEFAULT_COMPETITORS: Competitor[] = [
+  { name: 'Trainline', aliases: ['thetrainline', 'trainline.com'] },
+  { name: 'National Rail', aliases: ['nationalrail.co.uk', 'national rail enquiries'] },
+  { name: 'Omio', aliases: ['omio.com', 'goeuro'] },
+  { name: 'Rail Europe', aliases: ['raileurope.com'] },
+  { name: 'TrainPal', aliases: ['mytrainpal'] },
+  { name: 'Split My Fare', aliases: ['splitmyfare'] },
+  { name: 'Raileasy', aliases: ['raileasy.co.uk'] },
+  { name: 'Eurostar', aliases: ['eurostar.com'] },
+  { name: 'National Express', aliases: ['nationalexpress.com'] },
+  { name: 'Megabus', aliases: ['megabus.com'] },
+  { name: 'FlixBus', aliases: ['flixbus.co.uk', 'flix bus'] },
+  { name: 'Skyscanner', aliases: ['skyscanner.net'] },
+  { name: 'Kayak', aliases: ['kayak.co.uk'] },
+  { name: 'Google Flights', aliases: [] },
+  { name: 'Expedia', aliases: ['expedia.co.uk'] },
+];
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Names of the competitors the text mentions, each once however often it is named. */
+export const findMentions = (text: string, competitors: Competitor[]): string[] =>
+  competitors
+    .filter(({ name, aliases }) => {
+      const spellings = [name, ...aliases].map(spelling => spelling.trim()).filter(Boolean);
+      // Whole words only, so "Kayak" is not found in "kayaking".
+      return name.trim() && new RegExp(`(^|[^\\p{L}\\p{N}])(${spellings.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`, 'iu').test(text);
+    })
+    .map(({ name }) => name.trim());
@@ -0,0 +1,78 @@
+import { UrlRecord } from '@/lib/columnMapping';
+import { GPTResponse } from '@/lib/gptResponses';
+import { SnapshotIndex } from '@/lib/snapshots';
+import { ExtractionRule, findRuleForUrl } from '@/lib/extractionRules';
+import { extractMainContent } from '@/lib/scraper';
+import { matchVariants, variantsForRecord } from '@/lib/promptMatching';
+import { PromptRule } from '@/lib/promptRules';
+import { Gazetteer } from '@/lib/gazetteer';
+import { ChunkingSettings, chunkText, countChunks, encodeText, loadTokenizer, resolveChunkOptions } from '@/lib/chunking';
+
+export interface RunEstimate {
+  /** URLs with at least one matching GPT response; only these are embedded. */
+  urls: number;
+  texts: number;
+  tokens: number;
+  /** Pages with no snapshot to measure, counted at ASSUMED_PAGE_TOKENS each. */
+  assumedPages: number;
+}
+
+export interface RunEstimateOptions {
+  maxInputTokens: number;
+  chunking: ChunkingSettings;
+  extractionRules: ExtractionRule[];
+  promptRules: PromptRule[];
+  gazetteer: Gazetteer;
+  /** When pages come from uploaded snapshots their real text is measured instead of assumed. */
+  snapshots?: SnapshotIndex;
+}
+
+/** Typical extracted length of a route page; live pages cannot be measured before they are fetched. */
+export const ASSUMED_PAGE_TOKENS = 1500;
+
+/**
+ * Counts the texts and tokens a run will send for embedding. Identical GPT answers are counted
+ * once, as the batcher embeds them once; cache hits are not subtracted, so this is an upper bound
+ * for repeated runs.
+ */
+export const estimateRun = async (
+  records: UrlRecord[],
+  responses: GPTResponse[],
+  options: RunEstimateOptions
+): Promise<RunEstimate> => {
+  const encoder = await loadTokenizer();
+  const chunkOptions = resolveChunkOptions(options.chunking, options.maxInputTokens);
+  const answers = new Set<string>();
+  const estimate: RunEstimate = { urls: 0, texts: 0, tokens: 0, assumedPages: 0 };
+  const matches = await matchVariants(records.map(record => variantsForRecord(record, options.promptRules, options.gazetteer)), responses);
+
+  for (const [index, record] of records.entries()) {
+    const selected = matches[index].filter(match => match.selected);
+    // Unmatched URLs are still scored, against their own prompt, as long as they have one.
+    if (selected.length === 0 && !matches[index][0]?.prompt) continue;
+    estimate.urls++;
+    selected.forEach(match => answers.add(responses[match.selected!.responseIndex].response));
+
+    const snapshot = options.snapshots?.lookup(record.url);
+    if (snapshot) {
+      const text = extractMainContent(snapshot.html, findRuleForUrl(options.extractionRules, record.url)).text;
+      const chunks = chunkText(text, encoder, chunkOptions);
+      estimate.texts += chunks.length;
+      estimate.tokens += chunks.reduce((sum, chunk) => sum + chunk.tokens, 0);
+    } else {
+      estimate.assumedPages++;
+      estimate.texts += countChunks(ASSUMED_PAGE_TOKENS, chunkOptions);
+      // Overlapping tokens are sent, and billed, once per chunk they appear in.
+      estimate.tokens += ASSUMED_PAGE_TOKENS + (countChunks(ASSUMED_PAGE_TOKENS, chunkOptions) - 1) * chunkOptions.overlapTokens;
+    }
+  }
+
+  // Prompts are embedded before the run to match them to responses by meaning.
+  matches.flat().forEach(match => answers.add(match.prompt));
+  responses.forEach(response => answers.add(response.prompt));
+  answers.forEach(answer => {
+    estimate.texts++;
+    estimate.tokens += Math.min(encodeText(encoder, answer).length, options.maxInputTokens);
+  });
+  return estimate;
+};
@@ -0,0 +1,212 @@
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export interface CsvParseIssue {
+  line: number;
+  message: string;
+  raw: string;
+}
+
+export interface CsvParseResult {
+  delimiter: CsvDelimiter;
+  hasHeader: boolean;
+  header: string[];
+  rows: string[][];
+  issues: CsvParseIssue[];
+}
+
+interface CsvParseOptions {
+  delimiter?: CsvDelimiter;
+  hasHeader?: boolean;
+}
+
+interface RawRecord {
+  line: number;
+  raw: string;
+  fields: string[];
+  error?: string;
+}
+
+const DELIMITERS: CsvDelimiter[] = [',', ';', '\t'];
+
+const HEADER_NAMES = /^(url|urls|link|page|address|landing page|prompt)$/i;
+
+const URL_PATTERN = /^(https?:\/\/|www\.)\S+$/i;
+
+export const looksLikeUrl = (value: string): boolean => URL_PATTERN.test(value.trim());
+
+/** Gives scheme-less "www." URLs, which `looksLikeUrl` accepts, the https:// they need to be fetched. */
+export const normalizeUrl = (value: string): string => {
+  const trimmed = value.trim();
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+};
+
+// RFC 4180 tokenizer: quoted fields may contain delimiters, newlines and "" escapes.
+const tokenize = (text: string, delimiter: CsvDelimiter): RawRecord[] => {
+  const records: RawRecord[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let fieldWasQuoted = false;
+  let error: string | undefined;
+  let line = 1;
+  let recordLine = 1;
+  let recordStart = 0;
+
+  const endRecord = (end: number) => {
+    fields.push(field);
+    const raw = text.slice(recordStart, end);
+    const isBlank = fields.length === 1 && fields[0].trim() === '' && !fieldWasQuoted;
+    if (!isBlank) {
+      records.push({ line: recordLine, raw, fields, error });
+    }
+    fields = [];
+    field = '';
+    fieldWasQuoted = false;
+    error = undefined;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      if (field === '' && !fieldWasQuoted) {
+        inQuotes = true;
+        fieldWasQuoted = true;
+      } else {
+        error = error ?? 'Unexpected quote inside an unquoted field';
+        field += char;
+      }
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+      fieldWasQuoted = false;
+    } else if (char === '\r' || char === '\n') {
+      endRecord(i);
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      line++;
+      recordLine = line;
+      recordStart = i + 1;
+    } else {
+      if (fieldWasQuoted) {
+        error = error ?? 'Unexpected characters after a closing quote';
+      }
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    error = 'Unterminated quoted field';
+  }
+  if (field !== '' || fields.length > 0 || fieldWasQuoted) {
+    endRecord(text.length);
+  }
+
+  return records;
+};
+
+// Picks the delimiter that splits the first few records into the most, and most consistent, columns.
+const detectDelimiter = (text: string): CsvDelimiter => {
+  const sample = text.slice(0, 64 * 1024);
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+
+  for (const delimiter of DELIMITERS) {
+    const counts = tokenize(sample, delimiter)
+      .slice(0, 10)
+      .map(record => record.fields.length);
+    if (counts.length === 0) continue;
+
+    const consistent = counts.filter(count => count === counts[0]).length / counts.length;
+    const score = counts[0] > 1 ? counts[0] * consistent : 0;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+};
+
+const isNumeric = (value: string) => value.trim() !== '' && !isNaN(Number(value.replace(/[£$€,%]/g, '')));
+
+const detectHeader = (records: RawRecord[]): boolean => {
+  if (records.length === 0) return false;
+  const first = records[0].fields.map(cell => cell.trim());
+
+  if (first.some(looksLikeUrl) || first.some(isNumeric)) return false;
+  if (first.some(cell => cell === '')) return false;
+  if (new Set(first.map(cell => cell.toLowerCase())).size !== first.length) return false;
+  if (records.length === 1) return true;
+
+  if (first.some(cell => HEADER_NAMES.test(cell))) return true;
+
+  // Otherwise a header is likely when the row below carries URLs or numbers where the first row has plain labels.
+  const second = records[1].fields.map(cell => cell.trim());
+  return second.some(cell => looksLikeUrl(cell) || isNumeric(cell));
+};
+
+export const parseCsv = (input: string, options: CsvParseOptions = {}): CsvParseResult => {
+  const text = input.replace(/^\uFEFF/, '');
+  const delimiter = options.delimiter ?? detectDelimiter(text);
+  const records = tokenize(text, delimiter);
+  const issues: CsvParseIssue[] = [];
+
+  const hasHeader = options.hasHeader ?? detectHeader(records);
+  const header = hasHeader && records.length > 0 ? records[0].fields.map(cell => cell.trim()) : [];
+  const dataRecords = hasHeader ? records.slice(1) : records;
+  // Reduced rather than spread into Math.max, which runs out of stack on files of a hundred thousand rows.
+  const expectedColumns = hasHeader
+    ? header.length
+    : dataRecords.reduce((widest, r) => (r.error ? widest : Math.max(widest, r.fields.length)), 0);
+
+  const rows: string[][] = [];
+  for (const record of dataRecords) {
+    if (record.error) {
+      issues.push({ line: record.line, message: record.error, raw: record.raw });
+      continue;
+    }
+    if (record.fields.length > expectedColumns) {
+      issues.push({
+        line: record.line,
+        message: `Expected ${expectedColumns} columns but found ${record.fields.length}`,
+        raw: record.raw,
+      });
+      continue;
+    }
+    // Short rows are common in hand-edited exports, so pad them rather than rejecting them.
+    const fields = record.fields.map(cell => cell.trim());
+    while (fields.length < expectedColumns) fields.push('');
+    rows.push(fields);
+  }
+
+  return {
+    delimiter,
+    hasHeader,
+    header: hasHeader ? header : Array.from({ length: expectedColumns }, (_, i) => `Column ${i + 1}`),
+    rows,
+    issues,
+  };
+};
+
+export const findUrlColumn = (result: CsvParseResult): number => {
+  const scores = result.header.map((_, column) =>
+    result.rows.slice(0, 50).filter(row => looksLikeUrl(row[column] ?? '')).length
+  );
+  const best = scores.indexOf(Math.max(0, ...scores));
+  return best >= 0 && scores[best] > 0 ? best : 0;
+};
@@ -0,0 +1,158 @@
+import { EmbeddingProvider, estimateTokens, truncateToTokens } from '@/lib/embeddings';
+import { EmbeddingError, policyFor } from '@/lib/embeddingErrors';
+import { RateLimiter } from '@/lib/scheduler';
+import { EmbeddingCache } from '@/lib/embeddingCache';
+import { BudgetExceededError, UsageMeter } from '@/lib/usage';
+
+export interface EmbeddingBatcherOptions {
+  concurrency: number;
+  limiter: RateLimiter;
+  /** Checked before a text is queued; fresh vectors are written back to it. */
+  cache?: EmbeddingCache;
+  /** Every request is reserved against it first; once it refuses, queued texts fail with BudgetExceededError. */
+  meter?: UsageMeter;
+  /** How long a partial batch waits for more inputs before it is sent anyway. */
+  flushDelayMs?: number;
+  maxRetries?: number;
+  /** Called before each retry, so callers can log errors that never reach a URL. */
+  onRetry?: (error: EmbeddingError, attempt: number) => void;
+}
+
+export interface EmbeddingBatchStats {
+  inputs: number;
+  cacheHits: number;
+  requests: number;
+  retries: number;
+}
+
+export interface EmbeddingBatcher {
+  embed: (text: string) => Promise<number[]>;
+  stats: () => EmbeddingBatchStats;
+}
+
+interface PendingInput {
+  text: string;
+  tokens: number;
+  resolve: (vector: number[]) => void;
+  reject: (error: unknown) => void;
+}
+
+const BASE_BACKOFF_MS = 1000;
+
+const isRetryable = (error: unknown): error is EmbeddingError =>
+  error instanceof EmbeddingError && policyFor(error) === 'retry';
+
+/**
+ * Collects single-text embedding calls into provider-sized batches. Identical texts are
+ * embedded once per batcher, which matters when one GPT answer is matched to many URLs.
+ */
+export const createEmbeddingBatcher = (provider: EmbeddingProvider, options: EmbeddingBatcherOptions): EmbeddingBatcher => {
+  const flushDelayMs = options.flushDelayMs ?? 25;
+  const maxRetries = options.maxRetries ?? 5;
+  const queue: PendingInput[] = [];
+  const seen = new Map<string, Promise<number[]>>();
+  const stats: EmbeddingBatchStats = { inputs: 0, cacheHits: 0, requests: 0, retries: 0 };
+  let active = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  // Set by an error whose policy is to abort; every queued and later text fails with it.
+  let halted: unknown;
+
+  const takeBatch = (): PendingInput[] => {
+    const batch: PendingInput[] = [];
+    let tokens = 0;
+    while (queue.length > 0 && batch.length < provider.maxBatchSize) {
+      // A single oversized input still goes out alone rather than blocking the queue.
+      if (batch.length > 0 && tokens + queue[0].tokens > provider.maxBatchTokens) break;
+      tokens += queue[0].tokens;
+      batch.push(queue.shift()!);
+    }
+    return batch;
+  };
+
+  const request = async (texts: string[], estimatedTokens: number): Promise<number[][]> => {
+    const { meter } = options;
+    if (halted) throw halted;
+    if (meter && !meter.reserve(estimatedTokens)) throw new BudgetExceededError(meter.snapshot().capUsd);
+
+    for (let attempt = 1; ; attempt++) {
+      await options.limiter.take();
+      stats.requests++;
+      try {
+        const result = await provider.embed(texts);
+        meter?.settle(estimatedTokens, result.tokens ?? estimatedTokens);
+        return result.vectors;
+      } catch (error) {
+        if (!isRetryable(error) || attempt > maxRetries) {
+          meter?.release(estimatedTokens);
+          throw error;
+        }
+        stats.retries++;
+        options.onRetry?.(error, attempt);
+        // A 429 means every in-flight batch is over the limit, so the whole limiter waits.
+        options.limiter.pauseFor(error.retryAfterMs ?? BASE_BACKOFF_MS * 2 ** (attempt - 1));
+      }
+    }
+  };
+
+  const send = async (batch: PendingInput[]) => {
+    active++;
+    try {
+      const tokens = batch.reduce((sum, input) => sum + input.tokens, 0);
+      const vectors = await request(batch.map(input => input.text), tokens);
+      batch.forEach((input, index) => input.resolve(vectors[index]));
+    } catch (error) {
+      batch.forEach(input => input.reject(error));
+      if (policyFor(error) === 'abort' && !halted) {
+        halted = error;
+        queue.splice(0).forEach(input => input.reject(error));
+      }
+    } finally {
+      active--;
+      schedule();
+    }
+  };
+
+  const dispatch = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    while (active < options.concurrency && queue.length > 0) {
+      void send(takeBatch());
+    }
+  };
+
+  const schedule = () => {
+    if (queue.length >= provider.maxBatchSize) {
+      dispatch();
+    } else if (queue.length > 0 && timer === undefined) {
+      timer = setTimeout(dispatch, flushDelayMs);
+    }
+  };
+
+  return {
+    embed: (text) => {
+      const existing = seen.get(text);
+      if (existing) return existing;
+
+      const promise = (async () => {
+        const cached = await options.cache?.get(text);
+        if (cached) {
+          stats.cacheHits++;
+          return cached;
+        }
+
+        const vector = await new Promise<number[]>((resolve, reject) => {
+          if (halted) return reject(halted);
+          const truncated = truncateToTokens(text, provider.maxInputTokens);
+          queue.push({ text, tokens: estimateTokens(truncated), resolve, reject });
+          schedule();
+        });
+        void options.cache?.put(text, vector);
+        return vector;
+      })();
+      seen.set(text, promise);
+      stats.inputs++;
+      return promise;
+    },
+    stats: () => ({ ...stats }),
+  };
+};
@@ -0,0 +1,183 @@
+import { EmbeddingProvider } from '@/lib/embeddings';
+
+export interface EmbeddingCacheSettings {
+  enabled: boolean;
+  maxMegabytes: number;
+}
+
+export interface CacheNamespaceStats {
+  namespace: string;
+  entries: number;
+  bytes: number;
+}
+
+export interface EmbeddingCacheStats {
+  entries: number;
+  bytes: number;
+  namespaces: CacheNamespaceStats[];
+}
+
+export interface EmbeddingCache {
+  get: (text: string) => Promise<number[] | undefined>;
+  put: (text: string, vector: number[]) => Promise<void>;
+}
+
+interface CacheRecord {
+  key: string;
+  namespace: string;
+  vector: ArrayBuffer;
+  bytes: number;
+  lastUsedAt: number;
+}
+
+export const DEFAULT_EMBEDDING_CACHE_SETTINGS: EmbeddingCacheSettings = {
+  enabled: true,
+  maxMegabytes: 200,
+};
+
+const DB_NAME = 'route-match-bot';
+const STORE = 'embeddings';
+
+let database: Promise<IDBDatabase> | undefined;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+      store.createIndex('namespace', 'namespace');
+      store.createIndex('lastUsedAt', 'lastUsedAt');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Let a later call try again if this one failed, e.g. while the browser was blocking storage.
+  database.catch(() => {
+    database = undefined;
+  });
+  return database;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => Promise<T>): Promise<T> => {
+  const db = await openDatabase();
+  return run(db.transaction(STORE, mode).objectStore(STORE));
+};
+
+/** Walks records through a cursor, since IndexedDB has no aggregate queries. Returning false from `visit` stops early. */
+const forEachRecord = (
+  store: IDBObjectStore | IDBIndex,
+  visit: (record: CacheRecord, cursor: IDBCursorWithValue) => boolean | void
+) =>
+  new Promise<void>((resolve, reject) => {
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || visit(cursor.value as CacheRecord, cursor) === false) return resolve();
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+export const normalizeForCache = (text: string): string => text.normalize('NFC').replace(/\s+/g, ' ').trim();
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/** Vectors from different providers, models or sizes are never interchangeable, so each gets its own namespace. */
+export const cacheNamespace = (provider: Pick<EmbeddingProvider, 'kind' | 'model' | 'dimensions'>): string =>
+  `${provider.kind}/${provider.model}/${provider.dimensions}`;
+
+export const createEmbeddingCache = (provider: EmbeddingProvider): EmbeddingCache => {
+  const namespace = cacheNamespace(provider);
+  const keyFor = async (text: string) => `${namespace}/${await sha256(normalizeForCache(text))}`;
+
+  return {
+    get: async (text) => {
+      try {
+        const key = await keyFor(text);
+        return await withStore('readwrite', async store => {
+          const record = await promisify(store.get(key)) as CacheRecord | undefined;
+          if (!record) return undefined;
+          store.put({ ...record, lastUsedAt: Date.now() });
+          return Array.from(new Float32Array(record.vector));
+        });
+      } catch (error) {
+        console.warn('Embedding cache read failed:', error);
+        return undefined;
+      }
+    },
+    put: async (text, vector) => {
+      try {
+        const key = await keyFor(text);
+        const buffer = new Float32Array(vector).buffer;
+        await withStore('readwrite', store =>
+          promisify(store.put({ key, namespace, vector: buffer, bytes: buffer.byteLength, lastUsedAt: Date.now() } satisfies CacheRecord))
+        );
+      } catch (error) {
+        console.warn('Embedding cache write failed:', error);
+      }
+    },
+  };
+};
+
+export const getEmbeddingCacheStats = (): Promise<EmbeddingCacheStats> =>
+  withStore('readonly', async store => {
+    const namespaces = new Map<string, CacheNamespaceStats>();
+    await forEachRecord(store, record => {
+      const stats = namespaces.get(record.namespace) ?? { namespace: record.namespace, entries: 0, bytes: 0 };
+      stats.entries++;
+      stats.bytes += record.bytes;
+      namespaces.set(record.namespace, stats);
+    });
+    const list = Array.from(namespaces.values()).sort((a, b) => b.bytes - a.bytes);
+    return {
+      entries: list.reduce((sum, item) => sum + item.entries, 0),
+      bytes: list.reduce((sum, item) => sum + item.bytes, 0),
+      namespaces: list,
+    };
+  });
+
+export const clearEmbeddingCache = (namespace?: string): Promise<void> =>
+  withStore('readwrite', async store => {
+    if (!namespace) {
+      await promisify(store.clear());
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      const request = store.index('namespace').openKeyCursor(IDBKeyRange.only(namespace));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return resolve();
+        store.delete(cursor.primaryKey);
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  });
+
+/** Deletes least recently used vectors until the cache fits in `maxMegabytes`. Returns how many were removed. */
+export const pruneEmbeddingCache = async (maxMegabytes: number): Promise<number> => {
+  const limit = maxMegabytes * 1024 * 1024;
+  const { bytes } = await getEmbeddingCacheStats();
+  if (bytes <= limit) return 0;
+
+  let excess = bytes - limit;
+  let removed = 0;
+  await withStore('readwrite', store =>
+    forEachRecord(store.index('lastUsedAt'), (record, cursor) => {
+      cursor.delete();
+      excess -= record.bytes;
+      removed++;
+      return excess > 0;
+    })
+  );
+  return removed;
+};
@@ -0,0 +1,133 @@
+export type EmbeddingErrorKind =
+  | 'invalid-key'
+  | 'insufficient-quota'
+  | 'rate-limited'
+  | 'model-not-found'
+  | 'input-too-long'
+  | 'dimension-mismatch'
+  | 'server'
+  | 'network'
+  | 'invalid-response'
+  | 'unknown';
+
+/** abort stops the run, retry backs off and tries the request again, skip fails only the URLs in the request. */
+export type EmbeddingErrorPolicy = 'abort' | 'retry' | 'skip';
+
+export interface EmbeddingErrorLogEntry {
+  time: string;
+  url?: string;
+  kind: EmbeddingErrorKind;
+  policy: EmbeddingErrorPolicy;
+  status?: number;
+  message: string;
+}
+
+export class EmbeddingError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: EmbeddingErrorKind,
+    public readonly status?: number,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'EmbeddingError';
+  }
+}
+
+export const EMBEDDING_ERROR_POLICIES: Record<EmbeddingErrorKind, { label: string; policy: EmbeddingErrorPolicy; hint: string }> = {
+  'invalid-key': {
+    label: 'Invalid API key',
+    policy: 'abort',
+    hint: 'Check the API key and that it is allowed to call the embeddings endpoint.',
+  },
+  'insufficient-quota': {
+    label: 'Insufficient quota',
+    policy: 'abort',
+    hint: 'The account is out of credit or over its billing limit; add credit or raise the limit.',
+  },
+  'rate-limited': {
+    label: 'Rate limited',
+    policy: 'retry',
+    hint: 'Lower the requests per minute or concurrency in Settings → Performance.',
+  },
+  'model-not-found': {
+    label: 'Model not found',
+    policy: 'abort',
+    hint: 'Check the model name, or the deployment name on Azure.',
+  },
+  'input-too-long': {
+    label: 'Input too long',
+    policy: 'skip',
+    hint: 'Lower the chunk size in Settings → Scoring, or the max input tokens of the provider.',
+  },
+  'dimension-mismatch': {
+    label: 'Wrong dimensions',
+    policy: 'abort',
+    hint: 'Set the dimensions to the size of the vectors this model returns.',
+  },
+  'server': {
+    label: 'Provider error',
+    policy: 'retry',
+    hint: 'The provider failed to answer; it usually recovers on its own.',
+  },
+  'network': {
+    label: 'Network failure',
+    policy: 'retry',
+    hint: 'Check the connection and base URL, and that the server allows requests from this page (CORS).',
+  },
+  'invalid-response': {
+    label: 'Unexpected response',
+    policy: 'skip',
+    hint: 'The server answered with something other than embeddings; check the base URL.',
+  },
+  'unknown': {
+    label: 'Request rejected',
+    policy: 'skip',
+    hint: 'See the error message for details.',
+  },
+};
+
+export const policyFor = (error: unknown): EmbeddingErrorPolicy =>
+  error instanceof EmbeddingError ? EMBEDDING_ERROR_POLICIES[error.kind].policy : 'skip';
+
+/** The error body shared by OpenAI, Azure and most compatible servers: `{ error: { message, type, code } }`. */
+const readErrorBody = (body: unknown): { message?: string; code?: string } => {
+  const error = (body as { error?: unknown } | null)?.error;
+  if (typeof error === 'string') return { message: error };
+  if (!error || typeof error !== 'object') return {};
+  const { message, code, type } = error as Record<string, unknown>;
+  return {
+    message: typeof message === 'string' ? message : undefined,
+    code: [code, type].filter(value => typeof value === 'string').join(' ') || undefined,
+  };
+};
+
+export const classifyHttpError = (status: number, body: unknown): EmbeddingErrorKind => {
+  const { message = '', code = '' } = readErrorBody(body);
+  const text = `${code} ${message}`.toLowerCase();
+
+  if (status === 401 || status === 403 || text.includes('invalid_api_key')) return 'invalid-key';
+  if (text.includes('insufficient_quota') || text.includes('exceeded your current quota')) return 'insufficient-quota';
+  if (status === 429) return 'rate-limited';
+  if (status === 404 || text.includes('model_not_found') || text.includes('deploymentnotfound')) return 'model-not-found';
+  if (text.includes('context_length') || text.includes('maximum context length') || text.includes('too long')) return 'input-too-long';
+  if (status === 408 || status >= 500) return 'server';
+  return 'unknown';
+};
+
+/** Builds the error for a failed response, keeping the provider's own message where it sent one. */
+export const embeddingErrorFromResponse = (
+  status: number,
+  statusText: string,
+  body: unknown,
+  retryAfterMs?: number
+): EmbeddingError => {
+  const kind = classifyHttpError(status, body);
+  const detail = readErrorBody(body).message ?? statusText;
+  return new EmbeddingError(
+    `${EMBEDDING_ERROR_POLICIES[kind].label} (${status}${detail ? `: ${detail}` : ''})`,
+    kind,
+    status,
+    retryAfterMs
+  );
+};
@@ -0,0 +1,295 @@
+import { z } from 'zod';
+import { EmbeddingError, embeddingErrorFromResponse } from '@/lib/embeddingErrors';
+
+export type EmbeddingProviderKind = 'openai' | 'azure' | 'openai-compatible';
+
+export interface EmbeddingBatchResult {
+  vectors: number[][];
+  /** Tokens billed for the request, when the API reports them. */
+  tokens?: number;
+}
+
+export interface EmbeddingProvider {
+  kind: EmbeddingProviderKind | 'demo';
+  /** Human-readable label recorded on results, e.g. "OpenAI" or "Azure OpenAI (my-deployment)". */
+  name: string;
+  model: string;
+  dimensions: number;
+  maxInputTokens: number;
+  /** Most inputs, and most estimated tokens across them, accepted in one request. */
+  maxBatchSize: number;
+  maxBatchTokens: number;
+  embed: (texts: string[]) => Promise<EmbeddingBatchResult>;
+}
+
+export interface EmbeddingModelInfo {
+  id: string;
+  dimensions: number;
+  maxInputTokens: number;
+  /** List price in US dollars per million input tokens. */
+  pricePerMillionTokens: number;
+}
+
+export interface EmbeddingSettings {
+  kind: EmbeddingProviderKind;
+  model: string;
+  dimensions: number;
+  maxInputTokens: number;
+  baseUrl: string;
+  azureEndpoint: string;
+  azureDeployment: string;
+  azureApiVersion: string;
+}
+
+export const OPENAI_EMBEDDING_MODELS: EmbeddingModelInfo[] = [
+  { id: 'text-embedding-3-small', dimensions: 1536, maxInputTokens: 8191, pricePerMillionTokens: 0.02 },
+  { id: 'text-embedding-3-large', dimensions: 3072, maxInputTokens: 8191, pricePerMillionTokens: 0.13 },
+  { id: 'text-embedding-ada-002', dimensions: 1536, maxInputTokens: 8191, pricePerMillionTokens: 0.1 },
+];
+
+// Overridable at build time, e.g. to send the OpenAI provider to `npm run mock:openai` in CI.
+export const OPENAI_BASE_URL = import.meta.env.VITE_OPENAI_BASE_URL || 'https://api.openai.com/v1';
+
+export const DEFAULT_EMBEDDING_SETTINGS: EmbeddingSettings = {
+  kind: 'openai',
+  model: 'text-embedding-3-small',
+  dimensions: 1536,
+  maxInputTokens: 8191,
+  baseUrl: 'http://localhost:11434/v1',
+  azureEndpoint: '',
+  azureDeployment: '',
+  azureApiVersion: '2024-02-01',
+};
+
+export const EMBEDDING_PROVIDER_LABELS: Record<EmbeddingProviderKind, { label: string; description: string }> = {
+  'openai': {
+    label: 'OpenAI',
+    description: 'Embeddings from api.openai.com with your OpenAI API key',
+  },
+  'azure': {
+    label: 'Azure OpenAI',
+    description: 'An embedding model deployed to your Azure OpenAI resource',
+  },
+  'openai-compatible': {
+    label: 'OpenAI-compatible',
+    description: 'Any server exposing /v1/embeddings, such as Ollama, vLLM or LM Studio',
+  },
+};
+
+// OpenAI sends retry-after-ms alongside the standard header; either may be missing.
+const parseRetryAfter = (headers: Headers): number | undefined => {
+  const ms = Number(headers.get('retry-after-ms'));
+  if (ms > 0) return ms;
+
+  const value = headers.get('retry-after');
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const embeddingResponseSchema = z.object({
+  data: z.array(z.object({
+    embedding: z.array(z.number()),
+    index: z.number().optional(),
+  }).passthrough()).min(1),
+  usage: z.object({
+    prompt_tokens: z.number().optional(),
+    total_tokens: z.number().optional(),
+  }).passthrough().optional(),
+}).passthrough();
+
+// Roughly four characters per token for English text; close enough to stay under the limit.
+const CHARS_PER_TOKEN = 4;
+
+export const truncateToTokens = (text: string, maxTokens: number): string =>
+  text.length > maxTokens * CHARS_PER_TOKEN ? text.substring(0, maxTokens * CHARS_PER_TOKEN) : text;
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const trimSlash = (url: string) => url.trim().replace(/\/+$/, '');
+
+const requestEmbeddings = async (
+  url: string,
+  headers: Record<string, string>,
+  body: Record<string, unknown>,
+  expectedDimensions: number
+): Promise<EmbeddingBatchResult> => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    // fetch only rejects when no response arrived: DNS, refused connections, CORS or going offline.
+    throw new EmbeddingError(`Network failure: ${error instanceof Error ? error.message : String(error)}`, 'network');
+  }
+
+  if (!response.ok) {
+    const errorBody = await response.json().catch(() => null);
+    throw embeddingErrorFromResponse(response.status, response.statusText, errorBody, parseRetryAfter(response.headers));
+  }
+
+  const parsed = embeddingResponseSchema.safeParse(await response.json().catch(() => null));
+  if (!parsed.success) {
+    throw new EmbeddingError('Embedding API returned an unexpected response shape', 'invalid-response', response.status);
+  }
+
+  const vectors = [...parsed.data.data]
+    .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+    .map(item => item.embedding);
+
+  const actual = vectors[0].length;
+  if (actual !== expectedDimensions) {
+    throw new EmbeddingError(
+      `Model returned ${actual}-dimensional vectors but ${expectedDimensions} were configured`,
+      'dimension-mismatch'
+    );
+  }
+  const usage = parsed.data.usage;
+  return { vectors, tokens: usage?.prompt_tokens ?? usage?.total_tokens };
+};
+
+export const createOpenAIProvider = (apiKey: string, model: EmbeddingModelInfo): EmbeddingProvider => ({
+  kind: 'openai',
+  name: EMBEDDING_PROVIDER_LABELS.openai.label,
+  model: model.id,
+  dimensions: model.dimensions,
+  maxInputTokens: model.maxInputTokens,
+  maxBatchSize: 2048,
+  maxBatchTokens: 300000,
+  embed: (texts) =>
+    requestEmbeddings(
+      `${OPENAI_BASE_URL}/embeddings`,
+      { Authorization: `Bearer ${apiKey}` },
+      { model: model.id, input: texts.map(text => truncateToTokens(text, model.maxInputTokens)) },
+      model.dimensions
+    ),
+});
+
+export const createAzureProvider = (
+  apiKey: string,
+  settings: Pick<EmbeddingSettings, 'azureEndpoint' | 'azureDeployment' | 'azureApiVersion' | 'model' | 'dimensions' | 'maxInputTokens'>
+): EmbeddingProvider => {
+  const url = `${trimSlash(settings.azureEndpoint)}/openai/deployments/${encodeURIComponent(settings.azureDeployment)}/embeddings?api-version=${encodeURIComponent(settings.azureApiVersion)}`;
+  return {
+    kind: 'azure',
+    name: `${EMBEDDING_PROVIDER_LABELS.azure.label} (${settings.azureDeployment})`,
+    model: settings.model,
+    dimensions: settings.dimensions,
+    maxInputTokens: settings.maxInputTokens,
+    // Older Azure API versions reject more than 16 inputs per request.
+    maxBatchSize: 16,
+    maxBatchTokens: 100000,
+    // Azure picks the model from the deployment, so none is sent in the body.
+    embed: (texts) =>
+      requestEmbeddings(
+        url,
+        { 'api-key': apiKey },
+        { input: texts.map(text => truncateToTokens(text, settings.maxInputTokens)) },
+        settings.dimensions
+      ),
+  };
+};
+
+export const createCompatibleProvider = (
+  apiKey: string,
+  settings: Pick<EmbeddingSettings, 'baseUrl' | 'model' | 'dimensions' | 'maxInputTokens'>
+): EmbeddingProvider => ({
+  kind: 'openai-compatible',
+  name: `${EMBEDDING_PROVIDER_LABELS['openai-compatible'].label} (${new URL(trimSlash(settings.baseUrl)).host})`,
+  model: settings.model,
+  dimensions: settings.dimensions,
+  maxInputTokens: settings.maxInputTokens,
+  // Local servers embed a batch in one forward pass; keep batches small enough not to exhaust memory.
+  maxBatchSize: 32,
+  maxBatchTokens: 32 * settings.maxInputTokens,
+  embed: (texts) =>
+    requestEmbeddings(
+      `${trimSlash(settings.baseUrl)}/embeddings`,
+      // Local servers usually take no key; only send one when it was given.
+      apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+      { model: settings.model, input: texts.map(text => truncateToTokens(text, settings.maxInputTokens)) },
+      settings.dimensions
+    ),
+});
+
+export const DEMO_DIMENSIONS = 512;
+
+// 32-bit FNV-1a; stable across runs and browsers, which is all the demo embedder needs.
+const hashToken = (token: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/** Hashed bag-of-words vector: identical text always gives identical vectors, and overlap in wording drives the score. */
+export const embedBagOfWords = (text: string, dimensions = DEMO_DIMENSIONS): number[] => {
+  const counts = new Map<string, number>();
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).forEach(token => counts.set(token, (counts.get(token) ?? 0) + 1));
+
+  const vector = new Array<number>(dimensions).fill(0);
+  counts.forEach((count, token) => {
+    const hash = hashToken(token);
+    // The top bit picks a sign so unrelated tokens sharing a bucket tend to cancel out.
+    vector[hash % dimensions] += (hash & 0x80000000 ? -1 : 1) * (1 + Math.log(count));
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+};
+
+export const createDemoProvider = (): EmbeddingProvider => ({
+  kind: 'demo',
+  name: 'Demo mode (hashed bag-of-words)',
+  model: 'bag-of-words',
+  dimensions: DEMO_DIMENSIONS,
+  maxInputTokens: Number.POSITIVE_INFINITY,
+  maxBatchSize: 1000,
+  maxBatchTokens: Number.POSITIVE_INFINITY,
+  embed: async (texts) => ({ vectors: texts.map(text => embedBagOfWords(text)), tokens: 0 }),
+});
+
+/** Returns a reason the settings cannot be used for a run, or null when they can. */
+export const validateEmbeddingSettings = (settings: EmbeddingSettings, apiKey: string): string | null => {
+  if (!settings.model.trim()) return 'Choose an embedding model';
+  if (!(settings.dimensions > 0)) return 'Dimensions must be a positive number';
+  if (!(settings.maxInputTokens > 0)) return 'Max input tokens must be a positive number';
+
+  switch (settings.kind) {
+    case 'openai':
+      if (!OPENAI_EMBEDDING_MODELS.some(model => model.id === settings.model)) return 'Unknown OpenAI embedding model';
+      return apiKey.startsWith('sk-') && apiKey.length > 20 ? null : "Enter an OpenAI API key starting with 'sk-'";
+    case 'azure':
+      if (!/^https:\/\//.test(settings.azureEndpoint.trim())) return 'Enter the Azure resource endpoint (https://…)';
+      if (!settings.azureDeployment.trim()) return 'Enter the deployment name';
+      return apiKey ? null : 'Enter the Azure API key';
+    default:
+      try {
+        new URL(settings.baseUrl);
+        return null;
+      } catch {
+        return 'Enter a valid base URL, e.g. http://localhost:11434/v1';
+      }
+  }
+};
+
+export const createEmbeddingProvider = (settings: EmbeddingSettings, apiKey: string): EmbeddingProvider => {
+  switch (settings.kind) {
+    case 'azure':
+      return createAzureProvider(apiKey, settings);
+    case 'openai-compatible':
+      return createCompatibleProvider(apiKey, settings);
+    default:
+      return createOpenAIProvider(
+        apiKey,
+        OPENAI_EMBEDDING_MODELS.find(model => model.id === settings.model) ?? OPENAI_EMBEDDING_MODELS[0]
+      );
+  }
+};
@@ -0,0 +1,47 @@
+export interface ExtractionRule {
+  id: string;
+  // Exact hostname, or "*.example.com" for the domain and all of its subdomains.
+  hostname: string;
+  // Comma-separated CSS selectors, as typed into the settings screen.
+  include: string;
+  exclude: string;
+}
+
+export const createExtractionRule = (hostname = ''): ExtractionRule => ({
+  id: crypto.randomUUID(),
+  hostname,
+  include: '',
+  exclude: '',
+});
+
+export const validateSelector = (selector: string): string | undefined => {
+  if (!selector.trim()) return undefined;
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return undefined;
+  } catch {
+    return `"${selector}" is not a valid CSS selector`;
+  }
+};
+
+const hostnameMatches = (pattern: string, hostname: string): boolean => {
+  const normalized = pattern.trim().toLowerCase().replace(/^www\./, '');
+  const host = hostname.toLowerCase().replace(/^www\./, '');
+  if (normalized.startsWith('*.')) {
+    const domain = normalized.slice(2);
+    return host === domain || host.endsWith(`.${domain}`);
+  }
+  return host === normalized;
+};
+
+export const findRuleForUrl = (rules: ExtractionRule[], url: string): ExtractionRule | undefined => {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    return undefined;
+  }
+  // Exact hostnames win over wildcards so a subdomain can override its parent domain's rule.
+  const matching = rules.filter(rule => rule.hostname.trim() && hostnameMatches(rule.hostname, hostname));
+  return matching.find(rule => !rule.hostname.includes('*')) ?? matching[0];
+};
@@ -0,0 +1,209 @@
+import { SnapshotIndex } from '@/lib/snapshots';
+
+export type FetcherKind = 'proxy' | 'direct' | 'dev-proxy';
+
+export interface FetchedPage {
+  url: string;
+  status: number;
+  html: string;
+}
+
+export interface FetchedBytes {
+  url: string;
+  status: number;
+  bytes: Uint8Array;
+}
+
+export interface PageFetcher {
+  name: string;
+  // Offline fetchers never touch the network, so callers must not fall back to one that does.
+  offline: boolean;
+  fetch: (url: string, signal?: AbortSignal) => Promise<FetchedPage>;
+  /** The raw body, for files that may not be text such as gzipped sitemaps; offline fetchers only hold pages. */
+  fetchBytes?: (url: string, signal?: AbortSignal) => Promise<FetchedBytes>;
+}
+
+export interface RequestHeader {
+  name: string;
+  value: string;
+}
+
+export interface FetcherSettings {
+  kind: FetcherKind;
+  proxyUrl: string;
+  headers: RequestHeader[];
+  cookies: string;
+  basicAuth: { username: string; password: string };
+  timeoutMs: number;
+  maxRetries: number;
+  respectRobots: boolean;
+}
+
+export const DEFAULT_PROXY_URL = 'https://api.allorigins.win/get?url={url}';
+
+export const DEV_PROXY_PATH = '/__fetch';
+
+export const DEFAULT_FETCHER_SETTINGS: FetcherSettings = {
+  kind: 'proxy',
+  proxyUrl: DEFAULT_PROXY_URL,
+  headers: [],
+  cookies: '',
+  basicAuth: { username: '', password: '' },
+  timeoutMs: 20000,
+  maxRetries: 2,
+  respectRobots: true,
+};
+
+export const FETCHER_LABELS: Record<FetcherKind, { label: string; description: string }> = {
+  'proxy': {
+    label: 'CORS proxy',
+    description: 'Requests go through a proxy URL; use {url} where the encoded page URL belongs',
+  },
+  'direct': {
+    label: 'Direct fetch',
+    description: 'The browser requests each page itself; only works for sites that allow cross-origin reads',
+  },
+  'dev-proxy': {
+    label: 'Local dev proxy',
+    description: 'The Vite dev server fetches pages and can send custom headers, cookies and basic auth',
+  },
+};
+
+export class FetchError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'FetchError';
+  }
+}
+
+const buildProxyUrl = (template: string, url: string): string =>
+  template.includes('{url}')
+    ? template.replace('{url}', encodeURIComponent(url))
+    : `${template}${encodeURIComponent(url)}`;
+
+const readBody = async (response: Response): Promise<string> => {
+  const body = await response.text();
+  // allorigins-style proxies wrap the page in {"contents": "..."} instead of returning it as is.
+  if (response.headers.get('content-type')?.includes('application/json')) {
+    try {
+      const data = JSON.parse(body);
+      if (typeof data?.contents === 'string') return data.contents;
+    } catch {
+      // Not the wrapped shape; fall through and use the raw body.
+    }
+  }
+  return body;
+};
+
+const readBytes = async (response: Response): Promise<Uint8Array> => {
+  if (response.headers.get('content-type')?.includes('application/json')) {
+    const body = await readBody(response);
+    // allorigins hands back binary files as a base64 data URL.
+    const dataUrl = body.match(/^data:[^,]*;base64,(.*)$/s);
+    return dataUrl ? Uint8Array.from(atob(dataUrl[1]), char => char.charCodeAt(0)) : new TextEncoder().encode(body);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+const ensureOk = (response: Response, url: string) => {
+  if (!response.ok) {
+    throw new FetchError(`HTTP ${response.status} for ${url}`, response.status);
+  }
+};
+
+export const createProxyFetcher = (proxyUrl: string): PageFetcher => {
+  const request = async (url: string, signal?: AbortSignal) => {
+    const response = await fetch(buildProxyUrl(proxyUrl || DEFAULT_PROXY_URL, url), { signal });
+    ensureOk(response, url);
+    return response;
+  };
+  return {
+    name: 'CORS proxy',
+    offline: false,
+    fetch: async (url, signal) => {
+      const response = await request(url, signal);
+      return { url, status: response.status, html: await readBody(response) };
+    },
+    fetchBytes: async (url, signal) => {
+      const response = await request(url, signal);
+      return { url, status: response.status, bytes: await readBytes(response) };
+    },
+  };
+};
+
+export const createDirectFetcher = (): PageFetcher => {
+  const request = async (url: string, signal?: AbortSignal) => {
+    const response = await fetch(url, { signal });
+    ensureOk(response, url);
+    return response;
+  };
+  return {
+    name: 'Direct fetch',
+    offline: false,
+    fetch: async (url, signal) => {
+      const response = await request(url, signal);
+      return { url: response.url || url, status: response.status, html: await response.text() };
+    },
+    fetchBytes: async (url, signal) => {
+      const response = await request(url, signal);
+      return { url: response.url || url, status: response.status, bytes: new Uint8Array(await response.arrayBuffer()) };
+    },
+  };
+};
+
+export const createDevProxyFetcher = (settings: Pick<FetcherSettings, 'headers' | 'cookies' | 'basicAuth'>): PageFetcher => {
+  const request = async (url: string, signal?: AbortSignal) => {
+    const response = await fetch(DEV_PROXY_PATH, {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        url,
+        headers: settings.headers.filter(header => header.name.trim()),
+        cookies: settings.cookies || undefined,
+        basicAuth: settings.basicAuth.username ? settings.basicAuth : undefined,
+      }),
+    });
+    ensureOk(response, url);
+    return response;
+  };
+  return {
+    name: 'Local dev proxy',
+    offline: false,
+    fetch: async (url, signal) => {
+      const response = await request(url, signal);
+      return { url: response.headers.get('x-final-url') || url, status: response.status, html: await response.text() };
+    },
+    fetchBytes: async (url, signal) => {
+      const response = await request(url, signal);
+      return {
+        url: response.headers.get('x-final-url') || url,
+        status: response.status,
+        bytes: new Uint8Array(await response.arrayBuffer()),
+      };
+    },
+  };
+};
+
+export const createSnapshotFetcher = (snapshots: SnapshotIndex): PageFetcher => ({
+  name: 'Offline snapshots',
+  offline: true,
+  fetch: async (url) => {
+    const snapshot = snapshots.lookup(url);
+    if (!snapshot) {
+      throw new FetchError(`No snapshot found for ${url}`, 404);
+    }
+    return { url, status: 200, html: snapshot.html };
+  },
+});
+
+export const createPageFetcher = (settings: FetcherSettings): PageFetcher => {
+  switch (settings.kind) {
+    case 'direct':
+      return createDirectFetcher();
+    case 'dev-proxy':
+      return createDevProxyFetcher(settings);
+    default:
+      return createProxyFetcher(settings.proxyUrl);
+  }
+};
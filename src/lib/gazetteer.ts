@@ -0,0 +1,143 @@
+import { BUNDLED_PLACES } from '@/lib/gazetteerData';
+
+export interface Place {
+  // URL slug, e.g. "london-kings-cross"; the key user entries override bundled ones by.
+  slug: string;
+  name: string;
+  // Other spellings seen in slugs and prompts, e.g. "kings cross".
+  aliases: string[];
+  // ISO 3166 alpha-2 code.
+  country: string;
+  region: string;
+  kind: 'city' | 'station';
+}
+
+/** A slug as found in a URL, and the place it names when the gazetteer knows it. */
+export interface PlaceRef {
+  slug: string;
+  name: string;
+  place?: Place;
+}
+
+export interface ParsedRoute {
+  origin: PlaceRef;
+  destination: PlaceRef;
+}
+
+export interface Gazetteer {
+  places: Place[];
+  lookup: (text: string) => Place | undefined;
+  resolve: (slug: string) => PlaceRef;
+  /** Splits a "{origin}-to-{destination}" slug, preferring the split whose sides are known places. */
+  parseRoute: (slug: string) => ParsedRoute | undefined;
+  /**
+   * Finds a route named in free text, such as a GPT prompt, from the first two known places in it, or else
+   * from the words either side of "to", so places missing from the gazetteer still give a route.
+   */
+  findRoute: (text: string) => ParsedRoute | undefined;
+}
+
+export const createPlace = (slug = ''): Place => ({
+  slug,
+  name: slugToTitle(slug),
+  aliases: [],
+  country: '',
+  region: '',
+  kind: 'city',
+});
+
+// The longest place name, in words, looked for in free text; "Stoke on Trent" or "Exeter St Davids" fit.
+const MAX_PLACE_WORDS = 5;
+
+// Words that end a place name read around "to" in free text, such as "trains from York to Bath on Sunday".
+const ROUTE_STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'to', 'from', 'on', 'in', 'at', 'by', 'for', 'via', 'with', 'of', 'is', 'are',
+  'today', 'tomorrow', 'tonight', 'next', 'this', 'how', 'what', 'when', 'which', 'where', 'much', 'long', 'does',
+  'train', 'trains', 'coach', 'coaches', 'bus', 'buses', 'flight', 'flights', 'ticket', 'tickets', 'times',
+  'timetable', 'journey', 'journeys', 'cheap', 'cheapest', 'fast', 'fastest', 'direct', 'best', 'travel', 'get',
+]);
+
+/** Letters and digits only, so "King's Cross", "kings-cross" and "Kings Cross" share one key. */
+const placeKey = (text: string): string =>
+  text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+/** How an unknown slug is shown: "london-kings-cross" becomes "London Kings Cross". */
+export const slugToTitle = (slug: string): string =>
+  slug
+    .split(/[-_+\s]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+export const createGazetteer = (customPlaces: Place[] = []): Gazetteer => {
+  const bySlug = new Map<string, Place>();
+  [...BUNDLED_PLACES, ...customPlaces].forEach(place => place.slug.trim() && bySlug.set(place.slug.trim().toLowerCase(), place));
+  const places = Array.from(bySlug.values());
+
+  // Slugs win over names, and names over aliases, when two places share a key.
+  const byKey = new Map<string, Place>();
+  const index = (key: string, place: Place) => key && !byKey.has(key) && byKey.set(key, place);
+  places.forEach(place => index(placeKey(place.slug), place));
+  places.forEach(place => index(placeKey(place.name), place));
+  places.forEach(place => place.aliases.forEach(alias => index(placeKey(alias), place)));
+
+  const lookup = (text: string) => byKey.get(placeKey(text));
+
+  const resolve = (slug: string): PlaceRef => {
+    const place = lookup(slug);
+    return { slug, name: place?.name ?? slugToTitle(slug), place };
+  };
+
+  const parseRoute = (slug: string): ParsedRoute | undefined => {
+    const normalized = slug.toLowerCase().replace(/\/+$/, '');
+    let best: { route: ParsedRoute; known: number } | undefined;
+    for (let at = normalized.indexOf('-to-'); at > 0; at = normalized.indexOf('-to-', at + 1)) {
+      const route = { origin: resolve(normalized.slice(0, at)), destination: resolve(normalized.slice(at + 4)) };
+      if (!route.destination.slug) continue;
+      const known = Number(!!route.origin.place) + Number(!!route.destination.place);
+      if (!best || known > best.known) best = { route, known };
+    }
+    return best?.route;
+  };
+
+  // "from {origin} to {destination}", or "{origin} to {destination}" with the origin ending at the first stop word.
+  const findRouteByWording = (text: string): ParsedRoute | undefined => {
+    for (const clause of text.toLowerCase().split(/[,.;:!?()]+/)) {
+      const words = clause.replace(/'/g, '').split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+      for (let to = words.indexOf('to'); to > 0; to = words.indexOf('to', to + 1)) {
+        const from = words.lastIndexOf('from', to);
+        let start = to;
+        while (start > from + 1 && !ROUTE_STOP_WORDS.has(words[start - 1])) start--;
+        let end = to + 1;
+        while (end < words.length && !ROUTE_STOP_WORDS.has(words[end])) end++;
+        const origin = words.slice(start, to);
+        const destination = words.slice(to + 1, end);
+        if (origin.length === 0 || destination.length === 0) continue;
+        if (origin.length > MAX_PLACE_WORDS || destination.length > MAX_PLACE_WORDS) continue;
+        return { origin: resolve(origin.join('-')), destination: resolve(destination.join('-')) };
+      }
+    }
+    return undefined;
+  };
+
+  const findRoute = (text: string): ParsedRoute | undefined => {
+    const words = text.toLowerCase().split(/[^\p{L}\p{N}']+/u).filter(Boolean);
+    const found: { place: Place; at: number }[] = [];
+    // Longest match first, so "london kings cross" is one station rather than London followed by noise.
+    for (let at = 0; at < words.length && found.length < 2; ) {
+      let size = Math.min(MAX_PLACE_WORDS, words.length - at);
+      let place: Place | undefined;
+      while (size > 0 && !(place = lookup(words.slice(at, at + size).join(' ')))) size--;
+      if (place && place !== found[0]?.place) found.push({ place, at });
+      at += Math.max(size, 1);
+    }
+    if (found.length < 2) return findRouteByWording(text);
+
+    // "to Paris from London" and "Paris from London" name the destination first.
+    const reversed = words[found[1].at - 1] === 'from' && words[found[0].at - 1] !== 'from';
+    const [origin, destination] = (reversed ? [found[1], found[0]] : found).map(({ place }) => ({ slug: place.slug, name: place.name, place }));
+    return { origin, destination };
+  };
+
+  return { places, lookup, resolve, parseRoute, findRoute };
+};
@@ -0,0 +1,86 @@
+import { Place } from '@/lib/gazetteer';
+
+const city = (slug: string, name: string, country: string, region: string, aliases: string[] = []): Place => ({
+  slug,
+  name,
+  aliases,
+  country,
+  region,
+  kind: 'city',
+});
+
+const station = (slug: string, name: string, country: string, region: string, aliases: string[] = []): Place => ({
+  slug,
+  name,
+  aliases,
+  country,
+  region,
+  kind: 'station',
+});
+
+/** Places the route pages cover out of the box; users add or override entries under Settings. */
+export const BUNDLED_PLACES: Place[] = [
+  city('london', 'London', 'GB', 'London'),
+  station('london-kings-cross', 'London Kings Cross', 'GB', 'London', ['kings cross', "king's cross"]),
+  station('london-st-pancras', 'London St Pancras International', 'GB', 'London', ['st pancras', 'london st pancras international']),
+  station('london-euston', 'London Euston', 'GB', 'London', ['euston']),
+  station('london-paddington', 'London Paddington', 'GB', 'London', ['paddington']),
+  station('london-waterloo', 'London Waterloo', 'GB', 'London', ['waterloo']),
+  station('london-victoria', 'London Victoria', 'GB', 'London', ['victoria']),
+  station('london-liverpool-street', 'London Liverpool Street', 'GB', 'London', ['liverpool street']),
+  station('london-bridge', 'London Bridge', 'GB', 'London'),
+  city('brighton', 'Brighton', 'GB', 'South East England'),
+  city('oxford', 'Oxford', 'GB', 'South East England'),
+  city('reading', 'Reading', 'GB', 'South East England'),
+  city('southampton', 'Southampton', 'GB', 'South East England'),
+  city('canterbury', 'Canterbury', 'GB', 'South East England'),
+  city('gatwick-airport', 'Gatwick Airport', 'GB', 'South East England', ['gatwick']),
+  city('bristol', 'Bristol', 'GB', 'South West England'),
+  station('bristol-temple-meads', 'Bristol Temple Meads', 'GB', 'South West England', ['temple meads']),
+  city('bath', 'Bath', 'GB', 'South West England', ['bath spa']),
+  city('exeter', 'Exeter', 'GB', 'South West England', ['exeter st davids']),
+  city('plymouth', 'Plymouth', 'GB', 'South West England'),
+  city('penzance', 'Penzance', 'GB', 'South West England'),
+  city('cambridge', 'Cambridge', 'GB', 'East of England'),
+  city('norwich', 'Norwich', 'GB', 'East of England'),
+  city('birmingham', 'Birmingham', 'GB', 'Midlands'),
+  station('birmingham-new-street', 'Birmingham New Street', 'GB', 'Midlands', ['new street']),
+  city('nottingham', 'Nottingham', 'GB', 'Midlands'),
+  city('leicester', 'Leicester', 'GB', 'Midlands'),
+  city('coventry', 'Coventry', 'GB', 'Midlands'),
+  city('derby', 'Derby', 'GB', 'Midlands'),
+  city('stoke-on-trent', 'Stoke-on-Trent', 'GB', 'Midlands', ['stoke']),
+  city('manchester', 'Manchester', 'GB', 'Northern England'),
+  station('manchester-piccadilly', 'Manchester Piccadilly', 'GB', 'Northern England', ['piccadilly']),
+  city('manchester-airport', 'Manchester Airport', 'GB', 'Northern England'),
+  city('liverpool', 'Liverpool', 'GB', 'Northern England'),
+  station('liverpool-lime-street', 'Liverpool Lime Street', 'GB', 'Northern England', ['lime street']),
+  city('leeds', 'Leeds', 'GB', 'Northern England'),
+  city('sheffield', 'Sheffield', 'GB', 'Northern England'),
+  city('newcastle', 'Newcastle', 'GB', 'Northern England', ['newcastle upon tyne']),
+  city('york', 'York', 'GB', 'Northern England'),
+  city('hull', 'Hull', 'GB', 'Northern England', ['kingston upon hull']),
+  city('lancaster', 'Lancaster', 'GB', 'Northern England'),
+  city('preston', 'Preston', 'GB', 'Northern England'),
+  city('durham', 'Durham', 'GB', 'Northern England'),
+  city('glasgow', 'Glasgow', 'GB', 'Scotland'),
+  station('glasgow-central', 'Glasgow Central', 'GB', 'Scotland'),
+  station('glasgow-queen-street', 'Glasgow Queen Street', 'GB', 'Scotland'),
+  city('edinburgh', 'Edinburgh', 'GB', 'Scotland'),
+  station('edinburgh-waverley', 'Edinburgh Waverley', 'GB', 'Scotland', ['waverley']),
+  city('aberdeen', 'Aberdeen', 'GB', 'Scotland'),
+  city('dundee', 'Dundee', 'GB', 'Scotland'),
+  city('inverness', 'Inverness', 'GB', 'Scotland'),
+  city('stirling', 'Stirling', 'GB', 'Scotland'),
+  city('cardiff', 'Cardiff', 'GB', 'Wales', ['cardiff central']),
+  city('swansea', 'Swansea', 'GB', 'Wales'),
+  city('newport', 'Newport', 'GB', 'Wales'),
+  city('paris', 'Paris', 'FR', 'France'),
+  station('paris-gare-du-nord', 'Paris Gare du Nord', 'FR', 'France', ['gare du nord']),
+  city('lille', 'Lille', 'FR', 'France'),
+  city('lyon', 'Lyon', 'FR', 'France'),
+  city('marseille', 'Marseille', 'FR', 'France'),
+  city('brussels', 'Brussels', 'BE', 'Belgium', ['bruxelles', 'brussel']),
+  city('amsterdam', 'Amsterdam', 'NL', 'Netherlands'),
+  city('rotterdam', 'Rotterdam', 'NL', 'Netherlands'),
+];
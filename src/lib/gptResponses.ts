@@ -0,0 +1,283 @@
+import { z } from 'zod';
+
+export type ResponseFileFormat =
+  | 'json-array'
+  | 'jsonl'
+  | 'chat-completion'
+  | 'batch-output'
+  | 'conversation'
+  | 'keyed-by-prompt';
+
+export interface GPTResponse {
+  prompt: string;
+  response: string;
+  model?: string;
+  date?: string;
+  locale?: string;
+  metadata: Record<string, string | number | boolean>;
+  row: number;
+}
+
+export interface ResponseImportIssue {
+  row: number;
+  message: string;
+}
+
+export interface ResponseImportReport {
+  format: ResponseFileFormat;
+  total: number;
+  responses: GPTResponse[];
+  issues: ResponseImportIssue[];
+}
+
+const messageSchema = z.object({
+  role: z.string(),
+  content: z.union([
+    z.string(),
+    z.array(z.object({ type: z.string(), text: z.string().optional() }).passthrough()),
+    z.null(),
+  ]),
+}).passthrough();
+
+const chatCompletionSchema = z.object({
+  object: z.literal('chat.completion').optional(),
+  model: z.string().optional(),
+  created: z.number().optional(),
+  choices: z.array(z.object({ message: messageSchema }).passthrough()).min(1),
+}).passthrough();
+
+const batchLineSchema = z.object({
+  custom_id: z.string(),
+  response: z.object({
+    status_code: z.number(),
+    body: z.unknown(),
+  }).passthrough().nullable(),
+  error: z.unknown().optional(),
+}).passthrough();
+
+const conversationSchema = z.object({
+  messages: z.array(messageSchema).min(1),
+}).passthrough();
+
+const PROMPT_KEYS = ['prompt', 'query', 'question', 'input'];
+const RESPONSE_KEYS = ['response', 'answer', 'output', 'completion', 'text'];
+const MODEL_KEYS = ['model', 'model_name', 'engine'];
+const DATE_KEYS = ['date', 'created_at', 'timestamp', 'created'];
+const LOCALE_KEYS = ['locale', 'language', 'lang', 'country', 'market'];
+
+type Entry = Omit<GPTResponse, 'row'>;
+
+class EntryError extends Error {}
+
+const pick = (item: Record<string, unknown>, keys: string[]): unknown =>
+  keys.map(key => item[key]).find(value => value !== undefined && value !== null && value !== '');
+
+const messageText = (message: z.infer<typeof messageSchema>): string => {
+  if (typeof message.content === 'string') return message.content;
+  if (Array.isArray(message.content)) {
+    return message.content.map(part => part.text ?? '').join('');
+  }
+  return '';
+};
+
+// Epoch values in seconds, milliseconds, microseconds or nanoseconds, told apart by size.
+const toEpochMs = (value: number): number =>
+  value < 1e12 ? value * 1000 : value < 1e15 ? value : value < 1e18 ? value / 1e3 : value / 1e6;
+
+/** An ISO timestamp, or undefined for a value no date can be read from, such as one out of range. */
+const toDate = (value: unknown): string | undefined => {
+  const date = typeof value === 'number' ? new Date(toEpochMs(value)) : typeof value === 'string' ? new Date(value) : undefined;
+  return date && !isNaN(date.getTime()) ? date.toISOString() : undefined;
+};
+
+const extractMetadata = (item: Record<string, unknown>, skip: string[]) => {
+  const metadata: Record<string, string | number | boolean> = {};
+  for (const [key, value] of Object.entries(item)) {
+    if (skip.includes(key)) continue;
+    if (['string', 'number', 'boolean'].includes(typeof value)) {
+      metadata[key] = value as string | number | boolean;
+    } else if (key === 'metadata' && value && typeof value === 'object') {
+      Object.assign(metadata, extractMetadata(value as Record<string, unknown>, []));
+    }
+  }
+  return metadata;
+};
+
+const baseEntry = (item: Record<string, unknown>, prompt: string, response: string): Entry => {
+  const nested = (item.metadata && typeof item.metadata === 'object' ? item.metadata : {}) as Record<string, unknown>;
+  const model = pick(item, MODEL_KEYS) ?? pick(nested, MODEL_KEYS);
+  const locale = pick(item, LOCALE_KEYS) ?? pick(nested, LOCALE_KEYS);
+
+  return {
+    prompt: prompt.trim(),
+    response: response.trim(),
+    model: typeof model === 'string' ? model : undefined,
+    date: toDate(pick(item, DATE_KEYS) ?? pick(nested, DATE_KEYS)),
+    locale: typeof locale === 'string' ? locale : undefined,
+    metadata: extractMetadata(item, [...PROMPT_KEYS, ...RESPONSE_KEYS, 'messages', 'choices']),
+  };
+};
+
+const fromCompletion = (item: Record<string, unknown>, completion: z.infer<typeof chatCompletionSchema>, prompt: string): Entry => {
+  const entry = baseEntry({ ...completion, ...item }, prompt, messageText(completion.choices[0].message));
+  return { ...entry, model: entry.model ?? completion.model };
+};
+
+const promptFromMessages = (messages: z.infer<typeof messageSchema>[]): string | undefined => {
+  const lastUser = [...messages].reverse().find(message => message.role === 'user');
+  return lastUser ? messageText(lastUser) : undefined;
+};
+
+const normalizeEntry = (value: unknown): { format: ResponseFileFormat; entries: Entry[] } => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new EntryError('Expected an object');
+  }
+  const item = value as Record<string, unknown>;
+  const explicitPrompt = pick(item, PROMPT_KEYS);
+
+  const batchLine = batchLineSchema.safeParse(item);
+  if (batchLine.success) {
+    const { response, custom_id } = batchLine.data;
+    if (!response || response.status_code >= 400) {
+      throw new EntryError(`Batch request ${custom_id} failed${response ? ` with status ${response.status_code}` : ''}`);
+    }
+    const completion = chatCompletionSchema.safeParse(response.body);
+    if (!completion.success) throw new EntryError(`Batch request ${custom_id} has no chat completion body`);
+    const prompt = typeof explicitPrompt === 'string' ? explicitPrompt : custom_id;
+    return { format: 'batch-output', entries: [fromCompletion({ ...item, response: undefined }, completion.data, prompt)] };
+  }
+
+  const completion = chatCompletionSchema.safeParse(item);
+  if (completion.success) {
+    const request = conversationSchema.safeParse(item.request ?? item);
+    const prompt = typeof explicitPrompt === 'string'
+      ? explicitPrompt
+      : request.success ? promptFromMessages(request.data.messages) : undefined;
+    if (!prompt) throw new EntryError('Chat completion has no prompt or request messages');
+    return { format: 'chat-completion', entries: [fromCompletion(item, completion.data, prompt)] };
+  }
+
+  const conversation = conversationSchema.safeParse(item);
+  if (conversation.success && explicitPrompt === undefined) {
+    // Every user turn followed by an assistant turn becomes its own prompt/response pair.
+    const entries: Entry[] = [];
+    const { messages } = conversation.data;
+    messages.forEach((message, index) => {
+      const next = messages[index + 1];
+      if (message.role === 'user' && next?.role === 'assistant') {
+        entries.push(baseEntry(item, messageText(message), messageText(next)));
+      }
+    });
+    if (entries.length === 0) throw new EntryError('Conversation has no user message followed by an assistant reply');
+    return { format: 'conversation', entries };
+  }
+
+  if (typeof explicitPrompt !== 'string') {
+    throw new EntryError(`Missing prompt (expected one of: ${PROMPT_KEYS.join(', ')})`);
+  }
+  const response = pick(item, RESPONSE_KEYS);
+  if (typeof response === 'string') {
+    return { format: 'json-array', entries: [baseEntry(item, explicitPrompt, response)] };
+  }
+  const nestedCompletion = chatCompletionSchema.safeParse(response);
+  if (nestedCompletion.success) {
+    return { format: 'chat-completion', entries: [fromCompletion(item, nestedCompletion.data, explicitPrompt)] };
+  }
+  throw new EntryError(`Missing response text (expected one of: ${RESPONSE_KEYS.join(', ')})`);
+};
+
+const isKeyedByPrompt = (value: Record<string, unknown>): boolean => {
+  const values = Object.values(value);
+  return values.length > 0 && values.every(entry =>
+    typeof entry === 'string' ||
+    (entry !== null && typeof entry === 'object' && !Array.isArray(entry) && pick(entry as Record<string, unknown>, RESPONSE_KEYS) !== undefined)
+  );
+};
+
+// Rows keep their line number in the file, blank lines included, so every issue points at the right line.
+const parseJsonLines = (text: string): { rows: unknown[]; lineNumbers: number[]; issues: ResponseImportIssue[] } => {
+  const rows: unknown[] = [];
+  const lineNumbers: number[] = [];
+  const issues: ResponseImportIssue[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    lineNumbers.push(index + 1);
+    try {
+      rows.push(JSON.parse(line));
+    } catch {
+      issues.push({ row: index + 1, message: 'Line is not valid JSON' });
+      rows.push(undefined);
+    }
+  });
+  return { rows, lineNumbers, issues };
+};
+
+export const parseResponseFile = (input: string): ResponseImportReport => {
+  const untrimmed = input.replace(/^\uFEFF/, '');
+  const text = untrimmed.trim();
+  let rows: unknown[];
+  let lineNumbers: number[] | undefined;
+  let container: ResponseFileFormat | undefined;
+  const issues: ResponseImportIssue[] = [];
+
+  try {
+    const parsed = JSON.parse(text);
+    if (Array.isArray(parsed)) {
+      rows = parsed;
+    } else if (
+      parsed && typeof parsed === 'object' &&
+      pick(parsed, [...PROMPT_KEYS, 'messages', 'choices', 'custom_id']) === undefined &&
+      isKeyedByPrompt(parsed)
+    ) {
+      container = 'keyed-by-prompt';
+      rows = Object.entries(parsed).map(([prompt, entry]) =>
+        typeof entry === 'string' ? { prompt, response: entry } : { ...(entry as object), prompt }
+      );
+    } else {
+      rows = [parsed];
+    }
+  } catch {
+    const lines = parseJsonLines(untrimmed);
+    container = 'jsonl';
+    rows = lines.rows;
+    lineNumbers = lines.lineNumbers;
+    issues.push(...lines.issues);
+  }
+
+  const responses: GPTResponse[] = [];
+  const detected = new Set<ResponseFileFormat>();
+
+  rows.forEach((value, index) => {
+    if (value === undefined) return;
+    const row = lineNumbers?.[index] ?? index + 1;
+    try {
+      const normalized = normalizeEntry(value);
+      detected.add(normalized.format);
+      for (const entry of normalized.entries) {
+        if (!entry.prompt) {
+          issues.push({ row, message: 'Prompt is empty' });
+        } else if (!entry.response) {
+          issues.push({ row, message: `Response for "${entry.prompt}" is empty` });
+        } else {
+          responses.push({ ...entry, row });
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof EntryError)) throw error;
+      issues.push({ row, message: error.message });
+    }
+  });
+
+  issues.sort((a, b) => a.row - b.row);
+
+  // Report the most specific shape found, e.g. batch output rather than the JSONL container it came in.
+  const [only] = detected;
+  const format = detected.size === 1 && only !== 'json-array' ? only : container ?? 'json-array';
+
+  return {
+    format,
+    total: rows.length,
+    responses,
+    issues,
+  };
+};
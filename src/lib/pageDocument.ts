@@ -0,0 +1,166 @@
+import { ExtractedContent } from '@/lib/scraper';
+
+export interface OutlineHeading {
+  level: 2 | 3;
+  text: string;
+}
+
+export interface PageTable {
+  caption?: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export interface JsonLdBlock {
+  type: string;
+  data: Record<string, unknown>;
+}
+
+export interface FaqEntry {
+  question: string;
+  answer: string;
+}
+
+export interface PageDocument {
+  title: string;
+  metaDescription: string;
+  h1: string;
+  outline: OutlineHeading[];
+  paragraphs: string[];
+  tables: PageTable[];
+  jsonLd: JsonLdBlock[];
+  faq: FaqEntry[];
+}
+
+const MAX_TABLES = 10;
+const MAX_TABLE_ROWS = 50;
+const MAX_PARAGRAPHS = 100;
+
+const CHROME_SELECTOR = 'nav, header, footer, aside, [role="navigation"], [role="banner"], [role="contentinfo"]';
+const PARAGRAPH_TAGS = new Set(['p', 'li', 'dd', 'blockquote', 'div', 'section', 'article', 'main', 'pre', 'figcaption', 'summary']);
+
+const text = (element: Element | null | undefined): string =>
+  (element?.textContent ?? '').replace(/\s+/g, ' ').trim();
+
+const stripHtml = (value: string): string =>
+  new DOMParser().parseFromString(value, 'text/html').body.textContent?.replace(/\s+/g, ' ').trim() ?? '';
+
+const metaContent = (doc: Document, selector: string): string =>
+  doc.querySelector(selector)?.getAttribute('content')?.trim() ?? '';
+
+const typeOf = (node: Record<string, unknown>): string => {
+  const type = node['@type'];
+  return Array.isArray(type) ? type.join(', ') : typeof type === 'string' ? type : 'Unknown';
+};
+
+// JSON-LD may hold a single node, an array of nodes or a @graph; flatten all three.
+const flattenJsonLd = (value: unknown): Record<string, unknown>[] => {
+  if (Array.isArray(value)) return value.flatMap(flattenJsonLd);
+  if (!value || typeof value !== 'object') return [];
+  const node = value as Record<string, unknown>;
+  if (Array.isArray(node['@graph'])) return flattenJsonLd(node['@graph']);
+  return [node];
+};
+
+const parseJsonLd = (doc: Document): JsonLdBlock[] =>
+  Array.from(doc.querySelectorAll('script[type="application/ld+json"]')).flatMap(script => {
+    try {
+      return flattenJsonLd(JSON.parse(script.textContent ?? '')).map(data => ({ type: typeOf(data), data }));
+    } catch {
+      return [];
+    }
+  });
+
+const extractFaq = (blocks: JsonLdBlock[]): FaqEntry[] =>
+  blocks
+    .filter(block => block.type.split(', ').includes('FAQPage'))
+    .flatMap(block => {
+      const entities = block.data.mainEntity;
+      return (Array.isArray(entities) ? entities : [entities]) as Record<string, unknown>[];
+    })
+    .filter(entity => entity && typeof entity.name === 'string')
+    .map(entity => {
+      const answer = entity.acceptedAnswer as Record<string, unknown> | undefined;
+      return {
+        question: stripHtml(entity.name as string),
+        answer: typeof answer?.text === 'string' ? stripHtml(answer.text) : '',
+      };
+    });
+
+const parseTable = (table: HTMLTableElement): PageTable => {
+  const rows = Array.from(table.rows).map(row => Array.from(row.cells).map(cell => text(cell)));
+  const headerRow = table.tHead?.rows[0] ?? (table.rows[0] && Array.from(table.rows[0].cells).every(cell => cell.tagName === 'TH') ? table.rows[0] : undefined);
+  const headers = headerRow ? Array.from(headerRow.cells).map(cell => text(cell)) : [];
+  const body = headerRow ? rows.filter((_, index) => table.rows[index] !== headerRow) : rows;
+
+  return {
+    caption: text(table.caption) || undefined,
+    headers,
+    rows: body.filter(row => row.some(Boolean)).slice(0, MAX_TABLE_ROWS),
+  };
+};
+
+export const parsePageDocument = (html: string, content: ExtractedContent): PageDocument => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const jsonLd = parseJsonLd(doc);
+
+  const title = text(doc.querySelector('title')) || metaContent(doc, 'meta[property="og:title"]');
+  const metaDescription = metaContent(doc, 'meta[name="description"]') || metaContent(doc, 'meta[property="og:description"]');
+
+  // Headings and tables in site chrome (menus, footers) are not part of the page's own structure.
+  doc.querySelectorAll(CHROME_SELECTOR).forEach(element => element.remove());
+
+  return {
+    title,
+    metaDescription,
+    h1: text(doc.querySelector('h1')),
+    outline: Array.from(doc.querySelectorAll('h2, h3'))
+      .map(heading => ({ level: (heading.tagName === 'H2' ? 2 : 3) as 2 | 3, text: text(heading) }))
+      .filter(heading => heading.text),
+    paragraphs: content.kept
+      .filter(block => PARAGRAPH_TAGS.has(block.tag))
+      .map(block => block.text)
+      .slice(0, MAX_PARAGRAPHS),
+    tables: Array.from(doc.querySelectorAll('table')).slice(0, MAX_TABLES).map(parseTable),
+    jsonLd,
+    faq: extractFaq(jsonLd),
+  };
+};
+
+export type PageField = 'title' | 'metaDescription' | 'h1' | 'outline' | 'paragraphs' | 'tables' | 'faq';
+
+export const PAGE_FIELD_LABELS: Record<PageField, string> = {
+  title: 'Title',
+  metaDescription: 'Meta description',
+  h1: 'H1',
+  outline: 'Headings',
+  paragraphs: 'Body',
+  tables: 'Tables',
+  faq: 'FAQ schema',
+};
+
+export const getFieldText = (page: PageDocument, field: PageField): string => {
+  switch (field) {
+    case 'outline':
+      return page.outline.map(heading => heading.text).join('\n');
+    case 'paragraphs':
+      return page.paragraphs.join('\n');
+    case 'tables':
+      return page.tables.map(table => [table.caption ?? '', table.headers.join(' '), ...table.rows.map(row => row.join(' '))].join('\n')).join('\n');
+    case 'faq':
+      return page.faq.map(entry => `${entry.question}\n${entry.answer}`).join('\n');
+    default:
+      return page[field];
+  }
+};
+
+/** For each non-empty field, whether it mentions every one of the given terms. */
+export const findFieldMentions = (page: PageDocument, terms: string[]): Partial<Record<PageField, boolean>> => {
+  const needles = terms.map(term => term.toLowerCase()).filter(Boolean);
+  const mentions: Partial<Record<PageField, boolean>> = {};
+  (Object.keys(PAGE_FIELD_LABELS) as PageField[]).forEach(field => {
+    const haystack = getFieldText(page, field).toLowerCase();
+    if (haystack) mentions[field] = needles.every(needle => haystack.includes(needle));
+  });
+  return mentions;
+};
@@ -0,0 +1,109 @@
+import { FetchedPage, FetchError, PageFetcher } from '@/lib/fetchers';
+import { RobotsChecker } from '@/lib/robots';
+
+export type ScrapeFailureReason = 'http-status' | 'timeout' | 'empty-body' | 'robots' | 'network';
+
+export interface ScrapeFailure {
+  reason: ScrapeFailureReason;
+  message: string;
+  status?: number;
+  attempts: number;
+}
+
+export type PageLoadResult =
+  | { status: 'loaded'; page: FetchedPage; attempts: number }
+  | { status: 'failed'; failure: ScrapeFailure };
+
+export interface PageLoadOptions {
+  timeoutMs: number;
+  maxRetries: number;
+  /** Checked before the first attempt; omit to skip robots.txt entirely. */
+  robots?: RobotsChecker;
+  /** Overridable so callers can observe or shorten the backoff. */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export const SCRAPE_FAILURE_LABELS: Record<ScrapeFailureReason, string> = {
+  'http-status': 'HTTP error',
+  'timeout': 'Timed out',
+  'empty-body': 'Empty page',
+  'robots': 'Blocked by robots.txt',
+  'network': 'Network error',
+};
+
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+const BASE_BACKOFF_MS = 1000;
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+const classifyError = (error: unknown, timedOut: boolean): Omit<ScrapeFailure, 'attempts'> => {
+  // Fetchers may enforce their own deadline and reject with a TimeoutError, as AbortSignal.timeout() does.
+  if (timedOut || (error as { name?: string } | undefined)?.name === 'TimeoutError') {
+    return { reason: 'timeout', message: 'The request did not finish in time' };
+  }
+  if (error instanceof FetchError && error.status !== undefined) {
+    return { reason: 'http-status', message: error.message, status: error.status };
+  }
+  return { reason: 'network', message: error instanceof Error ? error.message : String(error) };
+};
+
+const isTransient = (failure: Omit<ScrapeFailure, 'attempts'>): boolean =>
+  failure.reason === 'timeout' ||
+  failure.reason === 'network' ||
+  (failure.reason === 'http-status' && RETRYABLE_STATUSES.has(failure.status!));
+
+const fetchWithTimeout = async (
+  fetcher: PageFetcher,
+  url: string,
+  timeoutMs: number
+): Promise<{ page?: FetchedPage; error?: unknown; timedOut: boolean }> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  try {
+    return { page: await fetcher.fetch(url, controller.signal), timedOut };
+  } catch (error) {
+    return { error, timedOut };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Fetches a page, retrying transient failures (timeouts, network errors, 429 and 5xx)
+ * with exponential backoff. Never throws: every outcome is either a page or a failure
+ * with the reason it could not be read.
+ */
+export const loadPage = async (url: string, fetcher: PageFetcher, options: PageLoadOptions): Promise<PageLoadResult> => {
+  const sleep = options.sleep ?? defaultSleep;
+
+  if (options.robots && !(await options.robots.isAllowed(url))) {
+    return { status: 'failed', failure: { reason: 'robots', message: 'Disallowed by the site\'s robots.txt', attempts: 0 } };
+  }
+
+  // Offline sources give the same answer every time, so retrying them only adds delay.
+  const maxAttempts = fetcher.offline ? 1 : options.maxRetries + 1;
+
+  for (let attempt = 1; ; attempt++) {
+    const { page, error, timedOut } = await fetchWithTimeout(fetcher, url, options.timeoutMs);
+
+    if (page) {
+      if (!page.html.trim()) {
+        return { status: 'failed', failure: { reason: 'empty-body', message: 'The response body was empty', status: page.status, attempts: attempt } };
+      }
+      return { status: 'loaded', page, attempts: attempt };
+    }
+
+    const failure = classifyError(error, timedOut);
+    if (attempt >= maxAttempts || !isTransient(failure)) {
+      return { status: 'failed', failure: { ...failure, attempts: attempt } };
+    }
+
+    // 1s, 2s, 4s... with jitter so parallel retries against one host spread out.
+    await sleep(BASE_BACKOFF_MS * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5));
+  }
+};
@@ -0,0 +1,220 @@
+import { UrlRecord } from '@/lib/columnMapping';
+import { GPTResponse } from '@/lib/gptResponses';
+import { applyPromptRules, PromptRule, PromptVariant } from '@/lib/promptRules';
+import { Gazetteer } from '@/lib/gazetteer';
+
+/** auto: confident enough to use; review: needs the user to confirm; confirmed: the user picked it; none: no usable match. */
+export type MatchStatus = 'auto' | 'review' | 'confirmed' | 'none';
+
+export interface PromptCandidate {
+  /** Index into the response list, so matches survive being saved and reloaded. */
+  responseIndex: number;
+  score: number;
+  lexical: number;
+  semantic?: number;
+}
+
+export interface PromptMatchResult {
+  intent: string;
+  prompt: string;
+  status: MatchStatus;
+  /** The response that will be scored against, if any. */
+  selected?: PromptCandidate;
+  /** Best candidates first, including the selected one. */
+  candidates: PromptCandidate[];
+}
+
+export const MATCH_THRESHOLDS = {
+  /** At or above this, and clear of the runner-up, a match is used without asking. */
+  accept: 0.75,
+  /** Below this a candidate is not offered at all. */
+  minimum: 0.35,
+  /** A best match this close to the runner-up is ambiguous, whatever its score. */
+  margin: 0.05,
+};
+
+const MAX_CANDIDATES = 4;
+
+/** Intent given to a prompt supplied in the URL list. */
+export const GIVEN_PROMPT_INTENT = 'given prompt';
+
+/**
+ * The prompts a URL is judged against: the one given in the URL list, or else one per template of
+ * its prompt rule. The first is the primary prompt; a URL no rule covers gets none.
+ */
+export const variantsForRecord = (
+  record: Pick<UrlRecord, 'url' | 'promptOverride'>,
+  rules: PromptRule[],
+  gazetteer: Gazetteer
+): PromptVariant[] =>
+  record.promptOverride
+    ? [{ intent: GIVEN_PROMPT_INTENT, prompt: record.promptOverride }]
+    : applyPromptRules(rules, record.url, gazetteer)?.variants ?? [];
+
+const normalizePrompt = (text: string): string =>
+  text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+/** Letters and digits only, so "King's Cross", "kings-cross" and "kings cross" all compare equal. */
+const compact = (text: string): string => normalizePrompt(text).replace(/ /g, '');
+
+const dice = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(item => b.has(item) && shared++);
+  return (2 * shared) / (a.size + b.size);
+};
+
+interface PromptFeatures {
+  /** Words plus adjacent word pairs; the pairs keep "london to paris" apart from "paris to london". */
+  words: Set<string>;
+  /** Character trigrams, which absorb plurals and typos that break whole-word matches. */
+  trigrams: Set<string>;
+}
+
+const featuresOf = (text: string): PromptFeatures => {
+  const normalized = normalizePrompt(text);
+  const tokens = normalized ? normalized.split(' ') : [];
+  const words = new Set(tokens);
+  tokens.slice(1).forEach((token, i) => words.add(`${tokens[i]} ${token}`));
+
+  const trigrams = new Set<string>();
+  const padded = ` ${normalized} `;
+  for (let i = 0; i + 3 <= padded.length; i++) trigrams.add(padded.slice(i, i + 3));
+  return { words, trigrams };
+};
+
+const lexicalSimilarity = (a: PromptFeatures, b: PromptFeatures): number =>
+  (dice(a.words, b.words) + dice(a.trigrams, b.trigrams)) / 2;
+
+const cosine = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+const classify = (candidates: PromptCandidate[]): Pick<PromptMatchResult, 'status' | 'selected'> => {
+  const [best, runnerUp] = candidates;
+  if (!best) return { status: 'none' };
+  const clear = !runnerUp || best.score - runnerUp.score >= MATCH_THRESHOLDS.margin;
+  return { status: best.score >= MATCH_THRESHOLDS.accept && clear ? 'auto' : 'review', selected: best };
+};
+
+export interface MatchOptions {
+  /**
+   * Embeds a prompt for nearest-neighbour search over every response prompt. When omitted, or
+   * when it fails, matching falls back to word and character overlap alone.
+   */
+  embed?: (text: string) => Promise<number[]>;
+}
+
+/**
+ * Matches every prompt variant of every URL to the GPT responses. Candidates are scored on
+ * normalised word and character overlap and, when an embedder is given, on the cosine similarity
+ * of the prompts' embeddings; the two are averaged. Results line up with `variants`.
+ */
+export const matchVariants = async (
+  variants: PromptVariant[][],
+  responses: GPTResponse[],
+  options: MatchOptions = {}
+): Promise<PromptMatchResult[][]> => {
+  const prompts = variants.flat().map(variant => variant.prompt);
+  const anchorsByPrompt = new Map(
+    variants.flat().map(variant => [variant.prompt, (variant.anchors ?? []).map(spellings => spellings.map(compact))])
+  );
+  const responseFeatures = responses.map(response => featuresOf(response.prompt));
+  const responseText = responses.map(response => compact(response.prompt));
+  const unique = Array.from(new Set(prompts.filter(Boolean)));
+
+  const byTrigram = new Map<string, number[]>();
+  responseFeatures.forEach(({ trigrams }, responseIndex) =>
+    trigrams.forEach(trigram => {
+      if (!byTrigram.has(trigram)) byTrigram.set(trigram, []);
+      byTrigram.get(trigram)!.push(responseIndex);
+    })
+  );
+  const naming = new Map<string, Set<number>>();
+  const responsesNaming = (spelling: string): Set<number> => {
+    if (!naming.has(spelling)) {
+      naming.set(spelling, new Set(responseText.flatMap((text, responseIndex) => (text.includes(spelling) ? [responseIndex] : []))));
+    }
+    return naming.get(spelling)!;
+  };
+  // Responses are looked up rather than all compared: a response about another route is wrong however alike
+  // the wording, so a prompt with anchors only sees those naming every one, and a prompt without sees those
+  // sharing a character trigram, as any other scores nothing on wording.
+  const featuresByPrompt = new Map(unique.map(prompt => [prompt, featuresOf(prompt)]));
+  const candidateIndexes = new Map(
+    unique.map(prompt => {
+      const anchors = anchorsByPrompt.get(prompt) ?? [];
+      const found = anchors.length > 0
+        ? anchors
+          .map(spellings => new Set(spellings.flatMap(spelling => Array.from(responsesNaming(spelling)))))
+          .reduce((shared, named) => new Set(Array.from(shared).filter(responseIndex => named.has(responseIndex))))
+        : new Set(Array.from(featuresByPrompt.get(prompt)!.trigrams).flatMap(trigram => byTrigram.get(trigram) ?? []));
+      return [prompt, Array.from(found).sort((a, b) => a - b)];
+    })
+  );
+
+  let vectors: Map<string, number[]> | undefined;
+  if (options.embed) {
+    // Only responses some prompt can match are worth embedding.
+    const reachable = new Set(Array.from(candidateIndexes.values()).flat());
+    const texts = Array.from(new Set([...unique, ...Array.from(reachable, responseIndex => responses[responseIndex].prompt)]));
+    const embedded = await Promise.all(texts.map(text => options.embed!(text)));
+    vectors = new Map(texts.map((text, i) => [text, embedded[i]]));
+  }
+
+  const byPrompt = new Map<string, Omit<PromptMatchResult, 'intent'>>();
+  unique.forEach(prompt => {
+    const features = featuresByPrompt.get(prompt)!;
+    const candidates = candidateIndexes.get(prompt)!
+      .map((responseIndex): PromptCandidate => {
+        const lexical = lexicalSimilarity(features, responseFeatures[responseIndex]);
+        if (!vectors) return { responseIndex, score: lexical, lexical };
+        const semantic = Math.max(0, cosine(vectors.get(prompt)!, vectors.get(responses[responseIndex].prompt)!));
+        return { responseIndex, score: (lexical + semantic) / 2, lexical, semantic };
+      })
+      .filter(candidate => candidate.score >= MATCH_THRESHOLDS.minimum)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_CANDIDATES);
+    byPrompt.set(prompt, { prompt, candidates, ...classify(candidates) });
+  });
+
+  return variants.map(list =>
+    claimResponses(list.map(({ intent, prompt }) => ({ intent, ...(byPrompt.get(prompt) ?? { prompt, status: 'none', candidates: [] }) })))
+  );
+};
+
+/**
+ * One response answers one intent of a URL: the best-scoring variants claim theirs first, and the
+ * rest choose among what is left, so a "timetable" prompt cannot fall back on the "cheapest" answer.
+ */
+const claimResponses = (matches: PromptMatchResult[]): PromptMatchResult[] => {
+  const claimed = new Set<number>();
+  const result = [...matches];
+  const byScore = matches.map((_, index) => index).sort((a, b) => (matches[b].selected?.score ?? 0) - (matches[a].selected?.score ?? 0));
+  byScore.forEach(index => {
+    const candidates = matches[index].candidates.filter(candidate => !claimed.has(candidate.responseIndex));
+    const { status, selected } = classify(candidates);
+    result[index] = { ...matches[index], candidates, status, selected };
+    if (selected) claimed.add(selected.responseIndex);
+  });
+  return result;
+};
+
+/** Records the user's choice for a match under review; `undefined` means none of the candidates is right. */
+export const confirmMatch = (match: PromptMatchResult, responseIndex: number | undefined): PromptMatchResult => {
+  const selected = match.candidates.find(candidate => candidate.responseIndex === responseIndex);
+  return { ...match, status: selected ? 'confirmed' : 'none', selected };
+};
@@ -0,0 +1,173 @@
+import { Gazetteer, ParsedRoute, PlaceRef } from '@/lib/gazetteer';
+
+export interface PromptTemplate {
+  // Short name for the question this template asks, e.g. "cheapest" or "timetable".
+  intent: string;
+  // "{name}" inserts a named capture from the rule's pattern.
+  template: string;
+}
+
+export interface PromptRule {
+  id: string;
+  name: string;
+  // Regular expression tested against the full URL, case-insensitively; named captures feed the templates.
+  pattern: string;
+  // Each template yields one prompt variant; the first is the URL's primary prompt.
+  templates: PromptTemplate[];
+}
+
+export interface PromptVariant {
+  intent: string;
+  prompt: string;
+  /** Captured values, such as the stations of a route, that a matching response prompt must mention; any spelling in each list will do. */
+  anchors?: string[][];
+}
+
+export interface PromptRuleMatch {
+  rule: PromptRule;
+  captures: Record<string, string>;
+  variants: PromptVariant[];
+  route?: ParsedRoute;
+  /** Place slugs the gazetteer does not know, which are shown as title-cased slugs until added. */
+  unknownPlaces: string[];
+}
+
+export const createPromptRule = (name = ''): PromptRule => ({
+  id: crypto.randomUUID(),
+  name,
+  pattern: '',
+  templates: [{ intent: '', template: '' }],
+});
+
+export const DEFAULT_PROMPT_RULES: PromptRule[] = [
+  {
+    id: 'train-times',
+    name: 'Train routes',
+    pattern: '/train-times/(?<route>[^/?#]+)',
+    templates: [
+      { intent: 'cheapest', template: 'cheapest {origin} to {destination} train tickets online' },
+      { intent: 'fastest', template: 'fastest train from {origin} to {destination}' },
+      { intent: 'timetable', template: '{origin} to {destination} train times' },
+      { intent: 'first and last train', template: 'first and last train from {origin} to {destination}' },
+      { intent: 'railcard discounts', template: 'railcard discounts on {origin} to {destination} trains' },
+    ],
+  },
+  {
+    id: 'coach-times',
+    name: 'Coach routes',
+    pattern: '/coach-times/(?<route>[^/?#]+)',
+    templates: [
+      { intent: 'cheapest', template: 'cheapest {origin} to {destination} coach tickets online' },
+      { intent: 'timetable', template: '{origin} to {destination} coach times' },
+    ],
+  },
+  {
+    id: 'flights',
+    name: 'Flight routes',
+    pattern: '/flights/(?<route>[^/?#]+)',
+    templates: [
+      { intent: 'cheapest', template: 'cheap flights from {origin} to {destination}' },
+      { intent: 'flight time', template: 'how long is the flight from {origin} to {destination}' },
+    ],
+  },
+];
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+/** A capture with this name holds a whole "{origin}-to-{destination}" slug, split using the gazetteer. */
+const ROUTE_CAPTURE = 'route';
+
+/** Captures holding one place, shown by their gazetteer name and flagged when unknown. */
+const PLACE_CAPTURES = new Set(['origin', 'destination', 'city', 'station', 'place']);
+
+const compile = (pattern: string): RegExp => new RegExp(pattern, 'i');
+
+const decodeSlug = (value: string): string => {
+  try {
+    return decodeURIComponent(value).toLowerCase();
+  } catch {
+    return value.toLowerCase();
+  }
+};
+
+/** Slugs read as words in a prompt: "day-trips" becomes "day trips". */
+const slugToWords = (value: string): string => decodeSlug(value).replace(/[-_+]+/g, ' ').trim();
+
+export const renderTemplate = (template: string, captures: Record<string, string>): string =>
+  template.replace(PLACEHOLDER, (_, name: string) => captures[name] ?? '').replace(/\s+/g, ' ').trim();
+
+const captureNames = (pattern: string): string[] => {
+  const groups = Array.from(pattern.matchAll(/\(\?<([a-zA-Z_$][\w$]*)>/g), match => match[1]);
+  return groups.includes(ROUTE_CAPTURE) ? [...groups, 'origin', 'destination'] : groups;
+};
+
+/** Returns why a rule cannot be used, or undefined when it is valid. */
+export const validatePromptRule = (rule: PromptRule): string | undefined => {
+  if (!rule.pattern.trim()) return 'Enter a URL pattern';
+  try {
+    compile(rule.pattern);
+  } catch (error) {
+    return `Invalid pattern: ${(error as Error).message}`;
+  }
+  const groups = captureNames(rule.pattern);
+  const templates = rule.templates.filter(({ template }) => template.trim());
+  if (templates.length === 0) return 'Add at least one prompt template';
+  const intents = new Set<string>();
+  for (const { intent, template } of templates) {
+    if (!intent.trim()) return `Name the intent of "${template}"`;
+    if (intents.has(intent.trim())) return `The intent "${intent.trim()}" is used twice`;
+    intents.add(intent.trim());
+    const unknown = Array.from(template.matchAll(PLACEHOLDER), match => match[1]).find(name => !groups.includes(name));
+    if (unknown) return `"{${unknown}}" is not a named capture in the pattern`;
+  }
+  return undefined;
+};
+
+/**
+ * Applies the first valid rule whose pattern matches the URL. Place captures are looked up in the
+ * gazetteer; a route capture with no "-to-" in it does not count as a match.
+ */
+export const applyPromptRules = (rules: PromptRule[], url: string, gazetteer: Gazetteer): PromptRuleMatch | undefined => {
+  for (const rule of rules) {
+    if (validatePromptRule(rule)) continue;
+    const match = url.match(compile(rule.pattern));
+    if (!match) continue;
+
+    const groups = Object.entries(match.groups ?? {}).filter((entry): entry is [string, string] => entry[1] !== undefined);
+    const places: Record<string, PlaceRef> = {};
+    const captures: Record<string, string> = {};
+    let route: ParsedRoute | undefined;
+    groups.forEach(([name, value]) => {
+      if (name === ROUTE_CAPTURE) {
+        route = gazetteer.parseRoute(decodeSlug(value));
+        if (route) Object.assign(places, route);
+      } else if (PLACE_CAPTURES.has(name)) {
+        places[name] = gazetteer.resolve(decodeSlug(value));
+      } else {
+        captures[name] = slugToWords(value);
+      }
+    });
+    if (groups.some(([name]) => name === ROUTE_CAPTURE) && !route) continue;
+    Object.entries(places).forEach(([name, ref]) => (captures[name] = ref.name));
+    route ??= places.origin && places.destination ? { origin: places.origin, destination: places.destination } : undefined;
+
+    // Any spelling the gazetteer knows for a place counts when matching responses.
+    const anchorFor = (name: string): string[] => {
+      const ref = places[name];
+      return ref ? [ref.name, ref.slug, ...(ref.place?.aliases ?? [])].filter(spelling => spelling.trim()) : [captures[name]];
+    };
+    const variants = rule.templates
+      .filter(({ template }) => template.trim())
+      .map(({ intent, template }) => ({
+        intent: intent.trim(),
+        prompt: renderTemplate(template, captures),
+        anchors: Array.from(template.matchAll(PLACEHOLDER), match => match[1])
+          .filter(name => captures[name])
+          .map(anchorFor),
+      }))
+      .filter(variant => variant.prompt);
+    const unknownPlaces = Object.values(places).filter(ref => !ref.place).map(ref => ref.slug);
+    return { rule, captures, variants, route, unknownPlaces: Array.from(new Set(unknownPlaces)) };
+  }
+  return undefined;
+};
@@ -0,0 +1,71 @@
+import { GPTResponse } from '@/lib/gptResponses';
+import { Gazetteer, ParsedRoute, PlaceRef } from '@/lib/gazetteer';
+import { Competitor, findMentions } from '@/lib/competitors';
+import { PromptMatchResult } from '@/lib/promptMatching';
+
+/** A response no URL's prompt was matched to. */
+export interface UncoveredPrompt {
+  responseIndex: number;
+  prompt: string;
+  route?: ParsedRoute;
+  competitors: string[];
+}
+
+/** Uncovered prompts about one route, in one direction; prompts naming no route share one group. */
+export interface UncoveredRoute {
+  key: string;
+  route?: ParsedRoute;
+  prompts: UncoveredPrompt[];
+  /** How many of the group's answers name each competitor. */
+  mentions: Record<string, number>;
+  totalMentions: number;
+  /** A URL in the run already covers this route, so a page exists but misses these prompts. */
+  existingUrl?: string;
+}
+
+export interface ReverseCoverageOptions {
+  gazetteer: Gazetteer;
+  competitors: Competitor[];
+  /** The routes the run's URLs were parsed into, for spotting routes that already have a page. */
+  pages: { url: string; route?: ParsedRoute }[];
+}
+
+export const UNPARSED_ROUTE_KEY = 'unparsed';
+
+// Known places go by their gazetteer slug, as a URL may spell one by an alias, e.g. "kings-cross" for "london-kings-cross".
+const placeId = ({ slug, place }: PlaceRef): string => place?.slug ?? slug.toLowerCase();
+
+const routeKey = ({ origin, destination }: ParsedRoute): string => `${placeId(origin)}>${placeId(destination)}`;
+
+/**
+ * Groups the responses none of the run's prompt variants selected by the route their prompt names,
+ * most competitor mentions first. The unparsed group always comes last.
+ */
+export const findUncoveredRoutes = (
+  responses: GPTResponse[],
+  matches: PromptMatchResult[][],
+  { gazetteer, competitors, pages }: ReverseCoverageOptions
+): UncoveredRoute[] => {
+  const matched = new Set(matches.flat().map(match => match.selected?.responseIndex).filter(index => index !== undefined));
+  const pageByRoute = new Map(pages.filter(page => page.route).map(page => [routeKey(page.route!), page.url]));
+
+  const groups = new Map<string, UncoveredRoute>();
+  responses.forEach((response, responseIndex) => {
+    if (matched.has(responseIndex)) return;
+    const route = gazetteer.findRoute(response.prompt);
+    const key = route ? routeKey(route) : UNPARSED_ROUTE_KEY;
+    const group = groups.get(key) ?? { key, route, prompts: [], mentions: {}, totalMentions: 0, existingUrl: pageByRoute.get(key) };
+    const named = findMentions(response.response, competitors);
+    named.forEach(name => (group.mentions[name] = (group.mentions[name] ?? 0) + 1));
+    group.totalMentions += named.length;
+    group.prompts.push({ responseIndex, prompt: response.prompt, route, competitors: named });
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values()).sort(
+    (a, b) =>
+      Number(a.key === UNPARSED_ROUTE_KEY) - Number(b.key === UNPARSED_ROUTE_KEY) ||
+      b.totalMentions - a.totalMentions ||
+      b.prompts.length - a.prompts.length
+  );
+};
@@ -0,0 +1,109 @@
+import { PageFetcher } from '@/lib/fetchers';
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+export interface RobotsRules {
+  rules: RobotsRule[];
+}
+
+export interface RobotsChecker {
+  isAllowed: (url: string) => Promise<boolean>;
+}
+
+/**
+ * Reads the rules that apply to every crawler (`User-agent: *`). Groups for named
+ * agents are ignored since requests go out through a browser or a generic proxy.
+ */
+export const parseRobots = (text: string): RobotsRules => {
+  const rules: RobotsRule[] = [];
+  let agents: string[] = [];
+  let inRules = false;
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator === -1) return;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share the group that follows them.
+      if (inRules) {
+        agents = [];
+        inRules = false;
+      }
+      agents.push(value.toLowerCase());
+    } else if (field === 'allow' || field === 'disallow') {
+      inRules = true;
+      // An empty Disallow allows everything, so it adds no rule.
+      if (agents.includes('*') && value) {
+        rules.push({ allow: field === 'allow', pattern: value });
+      }
+    }
+  });
+
+  return { rules };
+};
+
+const patternToRegExp = (pattern: string): RegExp => {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+};
+
+/** The longest matching pattern wins; Allow wins a tie, as in Google's implementation. */
+export const isPathAllowed = (robots: RobotsRules, path: string): boolean => {
+  let best: RobotsRule | undefined;
+  robots.rules.forEach(rule => {
+    if (!patternToRegExp(rule.pattern).test(path)) return;
+    if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+      best = rule;
+    }
+  });
+  return best ? best.allow : true;
+};
+
+/**
+ * Fetches robots.txt once per origin, giving up after `timeoutMs` like a page load; a missing,
+ * unreadable or slow file allows everything.
+ */
+export const createRobotsChecker = (fetcher: PageFetcher, timeoutMs: number): RobotsChecker => {
+  const cache = new Map<string, Promise<RobotsRules>>();
+
+  const fetchRules = async (origin: string): Promise<RobotsRules> => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      return parseRobots((await fetcher.fetch(`${origin}/robots.txt`, controller.signal)).html);
+    } catch {
+      return { rules: [] };
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  const rulesFor = (origin: string): Promise<RobotsRules> => {
+    if (!cache.has(origin)) cache.set(origin, fetchRules(origin));
+    return cache.get(origin)!;
+  };
+
+  return {
+    isAllowed: async (url) => {
+      let parsed: URL;
+      try {
+        parsed = new URL(url);
+      } catch {
+        // Nothing to check against; the page load itself reports the bad URL.
+        return true;
+      }
+      return isPathAllowed(await rulesFor(parsed.origin), `${parsed.pathname}${parsed.search}`);
+    },
+  };
+};
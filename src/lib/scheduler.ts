@@ -0,0 +1,82 @@
+export interface ThroughputSettings {
+  scrapeConcurrency: number;
+  embeddingConcurrency: number;
+  /** Embedding requests allowed per minute; 0 disables the limiter. */
+  requestsPerMinute: number;
+}
+
+export const DEFAULT_THROUGHPUT_SETTINGS: ThroughputSettings = {
+  scrapeConcurrency: 6,
+  embeddingConcurrency: 4,
+  requestsPerMinute: 500,
+};
+
+export interface RateLimiter {
+  /** Resolves once a request may be sent. */
+  take: () => Promise<void>;
+  /** Holds every caller until the given time has passed, e.g. for a Retry-After header. */
+  pauseFor: (ms: number) => void;
+}
+
+export const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Token bucket holding up to one second's worth of requests, so short bursts go out
+ * at once and sustained traffic settles at the configured rate.
+ */
+export const createRateLimiter = (requestsPerMinute: number, wait: (ms: number) => Promise<void> = sleep): RateLimiter => {
+  const perMs = requestsPerMinute / 60000;
+  const capacity = Math.max(1, Math.ceil(requestsPerMinute / 60));
+  let tokens = capacity;
+  let refilledAt = Date.now();
+  let pausedUntil = 0;
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + (now - refilledAt) * perMs);
+    refilledAt = now;
+  };
+
+  return {
+    take: async () => {
+      for (;;) {
+        const now = Date.now();
+        if (now < pausedUntil) {
+          await wait(pausedUntil - now);
+          continue;
+        }
+        if (requestsPerMinute <= 0) return;
+
+        refill();
+        if (tokens >= 1) {
+          tokens -= 1;
+          return;
+        }
+        await wait(Math.ceil((1 - tokens) / perMs));
+      }
+    },
+    pauseFor: (ms) => {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+    },
+  };
+};
+
+/** Runs `worker` over every item with at most `concurrency` in flight; results keep the input order. */
+export const runPool = async <T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const runners = Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(runners);
+  return results;
+};
@@ -0,0 +1,256 @@
+import { ExtractionRule } from '@/lib/extractionRules';
+
+export interface ContentBlock {
+  tag: string;
+  text: string;
+  reason: string;
+}
+
+export interface AppliedRule {
+  hostname: string;
+  // False when the include selectors matched nothing and generic extraction was used instead.
+  includeMatched: boolean;
+}
+
+export interface ExtractedContent {
+  text: string;
+  kept: ContentBlock[];
+  discarded: ContentBlock[];
+  rule?: AppliedRule;
+}
+
+// Summary stored on each result; block lists are capped so large audits stay light in memory.
+export interface ExtractionSummary {
+  keptCount: number;
+  discardedCount: number;
+  keptChars: number;
+  discardedChars: number;
+  kept: ContentBlock[];
+  discarded: ContentBlock[];
+  rule?: AppliedRule;
+}
+
+const REMOVED_TAGS = ['script', 'style', 'noscript', 'template', 'svg', 'iframe', 'link', 'meta'];
+
+const BOILERPLATE_TAGS = ['nav', 'header', 'footer', 'aside', 'form', 'dialog'];
+
+const BOILERPLATE_ROLES = ['navigation', 'banner', 'contentinfo', 'complementary', 'search', 'dialog', 'alertdialog', 'menu', 'menubar'];
+
+// Mirrors Readability's "unlikely candidates", plus widgets common on travel sites.
+const UNLIKELY_PATTERN = /cookie|consent|gdpr|banner|promo|newsletter|subscribe|breadcrumb|share|social|related|recommend|popular|sidebar|popup|modal|overlay|mega-?menu|menu|nav|footer|header|masthead|app-?download|advert|sponsor|signup|login/i;
+const LIKELY_PATTERN = /article|body|content|main|post|entry|route|journey|timetable|faq/i;
+
+const BLOCK_TAGS = new Set([
+  'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'td', 'th', 'dd', 'dt',
+  'blockquote', 'pre', 'figcaption', 'summary', 'caption', 'div', 'section', 'article', 'main',
+]);
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+const TABLE_TAGS = new Set(['td', 'th', 'caption']);
+
+const MAX_SUMMARY_BLOCKS = 40;
+const MAX_BLOCK_PREVIEW = 240;
+
+const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const wordCount = (text: string) => (text.match(/\S+/g) ?? []).length;
+
+const describe = (element: Element) =>
+  `${element.tagName.toLowerCase()}${element.id ? `#${element.id}` : ''}${
+    typeof element.className === 'string' && element.className.trim()
+      ? `.${element.className.trim().split(/\s+/).slice(0, 2).join('.')}`
+      : ''
+  }`;
+
+const boilerplateReason = (element: Element): string | undefined => {
+  const tag = element.tagName.toLowerCase();
+  if (BOILERPLATE_TAGS.includes(tag)) return `<${tag}> element`;
+
+  const role = element.getAttribute('role');
+  if (role && BOILERPLATE_ROLES.includes(role)) return `role="${role}"`;
+  if (element.getAttribute('aria-hidden') === 'true' || element.hasAttribute('hidden')) return 'hidden element';
+
+  const signature = `${typeof element.className === 'string' ? element.className : ''} ${element.id}`;
+  const unlikely = signature.match(UNLIKELY_PATTERN);
+  if (unlikely && !LIKELY_PATTERN.test(signature) && tag !== 'body' && tag !== 'main' && tag !== 'article') {
+    return `matches "${unlikely[0]}" (${describe(element)})`;
+  }
+  return undefined;
+};
+
+const linkDensity = (element: Element, textLength: number): number => {
+  if (textLength === 0) return 0;
+  const linkLength = Array.from(element.querySelectorAll('a'))
+    .reduce((sum, link) => sum + normalizeText(link.textContent ?? '').length, 0);
+  return Math.min(1, linkLength / textLength);
+};
+
+// Text of the block itself, excluding nested blocks that are scored on their own.
+const ownText = (element: Element): string => {
+  let text = '';
+  element.childNodes.forEach(node => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += node.textContent ?? '';
+    } else if (node.nodeType === Node.ELEMENT_NODE && !BLOCK_TAGS.has((node as Element).tagName.toLowerCase())) {
+      text += ' ' + ownText(node as Element);
+    }
+  });
+  return normalizeText(text);
+};
+
+const ownLinkText = (element: Element): number => {
+  let length = 0;
+  element.childNodes.forEach(node => {
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const child = node as Element;
+    const tag = child.tagName.toLowerCase();
+    if (tag === 'a') length += normalizeText(child.textContent ?? '').length;
+    else if (!BLOCK_TAGS.has(tag)) length += ownLinkText(child);
+  });
+  return length;
+};
+
+interface Candidate {
+  element: Element;
+  score: number;
+}
+
+const querySafely = (root: Element, selector: string): Element[] => {
+  try {
+    return Array.from(root.querySelectorAll(selector));
+  } catch {
+    return [];
+  }
+};
+
+// Applies a per-site rule in place and returns whether the include selectors found anything.
+const applyRule = (body: HTMLElement, rule: ExtractionRule, discarded: ContentBlock[]): boolean => {
+  if (rule.exclude.trim()) {
+    querySafely(body, rule.exclude).forEach(element => {
+      if (!element.isConnected) return;
+      const text = normalizeText(element.textContent ?? '');
+      if (text) discarded.push({ tag: element.tagName.toLowerCase(), text, reason: `site rule excludes ${describe(element)}` });
+      element.remove();
+    });
+  }
+
+  if (!rule.include.trim()) return false;
+  const matches = querySafely(body, rule.include);
+  const regions = matches.filter(region => !matches.some(other => other !== region && other.contains(region)));
+  if (regions.length === 0) return false;
+
+  const container = body.ownerDocument.createElement('div');
+  regions.forEach(region => container.appendChild(region));
+  const remainder = normalizeText(body.textContent ?? '');
+  if (remainder) discarded.push({ tag: 'body', text: remainder, reason: 'outside the site rule include selectors' });
+  body.replaceChildren(container);
+  return true;
+};
+
+export const extractMainContent = (html: string, rule?: ExtractionRule): ExtractedContent => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const kept: ContentBlock[] = [];
+  const discarded: ContentBlock[] = [];
+
+  REMOVED_TAGS.forEach(tag => doc.querySelectorAll(tag).forEach(el => el.remove()));
+
+  const body = doc.body;
+  if (!body) return { text: '', kept, discarded };
+
+  const includeMatched = rule ? applyRule(body, rule, discarded) : false;
+
+  // Pass 1: strip whole boilerplate regions (menus, cookie banners, footers...) and record why.
+  Array.from(body.querySelectorAll('*')).forEach(element => {
+    if (!element.isConnected) return;
+    const reason = boilerplateReason(element);
+    if (!reason) return;
+    const text = normalizeText(element.textContent ?? '');
+    if (text) discarded.push({ tag: element.tagName.toLowerCase(), text, reason });
+    element.remove();
+  });
+
+  // Pass 2: score the remaining blocks by text length, punctuation and link density.
+  const blocks = Array.from(body.querySelectorAll('*'))
+    .filter(element => BLOCK_TAGS.has(element.tagName.toLowerCase()))
+    .map(element => {
+      const text = ownText(element);
+      const density = text.length > 0 ? Math.min(1, ownLinkText(element) / text.length) : 0;
+      return { element, text, density, words: wordCount(text) };
+    })
+    .filter(block => block.text.length > 0);
+
+  const candidates = new Map<Element, Candidate>();
+  for (const block of blocks) {
+    if (block.words < 5 || block.density > 0.5) continue;
+    const score = 1 + (block.text.match(/,/g) ?? []).length + Math.min(Math.floor(block.text.length / 100), 3);
+    // Credit the parent fully and the grandparent half, as Readability does.
+    [block.element.parentElement, block.element.parentElement?.parentElement].forEach((ancestor, depth) => {
+      if (!ancestor) return;
+      const candidate = candidates.get(ancestor) ?? { element: ancestor, score: 0 };
+      candidate.score += depth === 0 ? score : score / 2;
+      candidates.set(ancestor, candidate);
+    });
+  }
+
+  let topCandidate: Element = body;
+  let topScore = 0;
+  // An analyst-defined include rule already identifies the main content, so scoring only filters links.
+  if (!includeMatched) {
+    candidates.forEach(({ element, score }) => {
+      const adjusted = score * (1 - linkDensity(element, normalizeText(element.textContent ?? '').length));
+      if (adjusted > topScore) {
+        topScore = adjusted;
+        topCandidate = element;
+      }
+    });
+  }
+
+  // Widen to the parent when it holds comparable content, so sibling sections are not lost.
+  const parent = topCandidate.parentElement;
+  if (parent && parent !== body.parentElement && candidates.get(parent)?.score >= topScore * 0.5) {
+    topCandidate = parent;
+  }
+
+  for (const { element, text, density, words } of blocks) {
+    const tag = element.tagName.toLowerCase();
+    const inMain = topCandidate.contains(element);
+
+    if (density > 0.5) {
+      discarded.push({ tag, text, reason: `link density ${(density * 100).toFixed(0)}%` });
+    } else if (HEADING_TAGS.has(tag) || TABLE_TAGS.has(tag)) {
+      (inMain || words >= 3 ? kept : discarded).push({
+        tag,
+        text,
+        reason: inMain ? 'heading or table inside main content' : words >= 3 ? 'descriptive heading or table cell' : 'short label outside main content',
+      });
+    } else if (inMain && (words >= 5 || /[.!?:]$/.test(text))) {
+      kept.push({ tag, text, reason: 'inside main content' });
+    } else if (!inMain && words >= 25 && density < 0.2) {
+      kept.push({ tag, text, reason: 'long prose outside main content' });
+    } else {
+      discarded.push({ tag, text, reason: inMain ? 'too short' : 'outside main content' });
+    }
+  }
+
+  return {
+    text: kept.map(block => block.text).join('\n'),
+    kept,
+    discarded,
+    rule: rule ? { hostname: rule.hostname, includeMatched } : undefined,
+  };
+};
+
+const preview = (blocks: ContentBlock[]) =>
+  blocks.slice(0, MAX_SUMMARY_BLOCKS).map(block => ({
+    ...block,
+    text: block.text.length > MAX_BLOCK_PREVIEW ? `${block.text.substring(0, MAX_BLOCK_PREVIEW)}…` : block.text,
+  }));
+
+export const summarizeExtraction = ({ kept, discarded, rule }: ExtractedContent): ExtractionSummary => ({
+  keptCount: kept.length,
+  discardedCount: discarded.length,
+  keptChars: kept.reduce((sum, block) => sum + block.text.length, 0),
+  discardedChars: discarded.reduce((sum, block) => sum + block.text.length, 0),
+  kept: preview(kept),
+  discarded: preview(discarded),
+  rule,
+});
@@ -0,0 +1,136 @@
+import { gunzipSync, strFromU8 } from 'fflate';
+
+export interface SitemapEntry {
+  url: string;
+  lastmod?: string;
+}
+
+export interface SitemapDocument {
+  kind: 'urlset' | 'sitemapindex';
+  entries: SitemapEntry[];
+}
+
+export interface SitemapLoadResult {
+  entries: SitemapEntry[];
+  sitemaps: string[];
+  errors: { url: string; message: string }[];
+}
+
+export interface SitemapFilter {
+  include: string[];
+  exclude: string[];
+}
+
+// Sitemap indexes can nest; this stops a misconfigured index from fetching forever.
+const MAX_SITEMAPS = 200;
+
+const childText = (element: Element, name: string): string | undefined => {
+  const child = Array.from(element.children).find(node => node.localName === name);
+  return child?.textContent?.trim() || undefined;
+};
+
+const normalizeLastmod = (value: string | undefined): string | undefined => {
+  if (!value || isNaN(Date.parse(value))) return undefined;
+  return new Date(value).toISOString();
+};
+
+export const parseSitemap = (xml: string): SitemapDocument => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('File is not valid XML');
+  }
+
+  const root = doc.documentElement;
+  if (root.localName !== 'urlset' && root.localName !== 'sitemapindex') {
+    throw new Error(`Expected <urlset> or <sitemapindex> but found <${root.localName}>`);
+  }
+
+  const itemName = root.localName === 'urlset' ? 'url' : 'sitemap';
+  const entries = Array.from(root.children)
+    .filter(node => node.localName === itemName)
+    .map(node => ({ url: childText(node, 'loc') ?? '', lastmod: normalizeLastmod(childText(node, 'lastmod')) }))
+    .filter(entry => entry.url !== '');
+
+  return { kind: root.localName, entries };
+};
+
+export const loadSitemap = async (
+  xml: string,
+  fetchXml: (url: string) => Promise<string>,
+  sourceUrl = 'uploaded file'
+): Promise<SitemapLoadResult> => {
+  const result: SitemapLoadResult = { entries: [], sitemaps: [], errors: [] };
+  const seenUrls = new Set<string>();
+  const seenSitemaps = new Set<string>([sourceUrl]);
+  const queue: { url: string; xml?: string }[] = [{ url: sourceUrl, xml }];
+
+  while (queue.length > 0 && result.sitemaps.length < MAX_SITEMAPS) {
+    const { url, xml: content } = queue.shift()!;
+    try {
+      const document = parseSitemap(content ?? await fetchXml(url));
+      result.sitemaps.push(url);
+
+      for (const entry of document.entries) {
+        if (document.kind === 'sitemapindex') {
+          if (!seenSitemaps.has(entry.url)) {
+            seenSitemaps.add(entry.url);
+            queue.push({ url: entry.url });
+          }
+        } else if (!seenUrls.has(entry.url)) {
+          seenUrls.add(entry.url);
+          result.entries.push(entry);
+        }
+      }
+    } catch (error) {
+      result.errors.push({ url, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  for (const { url } of queue) {
+    result.errors.push({ url, message: `Skipped: more than ${MAX_SITEMAPS} sitemaps` });
+  }
+
+  return result;
+};
+
+// Patterns are substrings by default, `*` acts as a wildcard and `/.../` is a regular expression.
+const toMatcher = (pattern: string): ((url: string) => boolean) => {
+  const regexLiteral = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regexLiteral) {
+    const regex = new RegExp(regexLiteral[1], regexLiteral[2]);
+    return url => regex.test(url);
+  }
+  if (pattern.includes('*')) {
+    const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+    const regex = new RegExp(escaped.join('.*'), 'i');
+    return url => regex.test(url);
+  }
+  const lower = pattern.toLowerCase();
+  return url => url.toLowerCase().includes(lower);
+};
+
+export const parsePatternList = (value: string): string[] =>
+  value.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+export const filterSitemapEntries = (entries: SitemapEntry[], filter: SitemapFilter): SitemapEntry[] => {
+  const include = filter.include.map(toMatcher);
+  const exclude = filter.exclude.map(toMatcher);
+  return entries.filter(({ url }) =>
+    (include.length === 0 || include.some(matches => matches(url))) &&
+    !exclude.some(matches => matches(url))
+  );
+};
+
+const isGzip = (bytes: Uint8Array): boolean => bytes[0] === 0x1f && bytes[1] === 0x8b;
+
+/**
+ * Decodes a fetched sitemap, gunzipping .xml.gz files. The gzip header is checked rather than the URL or
+ * content type, since browsers already inflate responses sent with Content-Encoding: gzip.
+ */
+export const decodeSitemapBytes = (bytes: Uint8Array): string => strFromU8(isGzip(bytes) ? gunzipSync(bytes) : bytes);
+
+export const readSitemapFile = async (file: File): Promise<string> => {
+  if (!file.name.endsWith('.gz')) return file.text();
+  const stream = file.stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+};
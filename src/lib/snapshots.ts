@@ -0,0 +1,141 @@
+import { unzipSync, strFromU8 } from 'fflate';
+
+export interface HtmlSnapshot {
+  source: string;
+  html: string;
+  url?: string;
+}
+
+export interface SnapshotIndex {
+  size: number;
+  lookup: (url: string) => HtmlSnapshot | undefined;
+}
+
+const HTML_EXTENSIONS = /\.(html?|xhtml)$/i;
+
+interface HarEntry {
+  request?: { url?: string };
+  response?: {
+    status?: number;
+    content?: { mimeType?: string; text?: string; encoding?: string };
+  };
+}
+
+const decodeBase64 = (value: string): string => {
+  const bytes = Uint8Array.from(atob(value), char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+// Recovers the original address from "Save page as" comments or the canonical link.
+const findDocumentUrl = (html: string): string | undefined => {
+  const savedFrom = html.match(/<!--\s*saved from url=\(\d+\)(\S+?)\s*-->/i);
+  if (savedFrom) return savedFrom[1];
+  const canonical = html.match(/<link[^>]+rel=["']?canonical["']?[^>]*>/i)?.[0].match(/href=["']?([^"'\s>]+)/i);
+  return canonical?.[1];
+};
+
+export const parseHar = (text: string, source: string): HtmlSnapshot[] => {
+  const har = JSON.parse(text) as { log?: { entries?: HarEntry[] } };
+  const entries = har.log?.entries ?? [];
+
+  return entries
+    .filter(entry =>
+      entry.request?.url &&
+      (entry.response?.status ?? 200) < 400 &&
+      entry.response?.content?.mimeType?.includes('html') &&
+      entry.response.content.text
+    )
+    .map(entry => {
+      const { text: body, encoding } = entry.response!.content!;
+      return {
+        source: `${source} → ${entry.request!.url}`,
+        html: encoding === 'base64' ? decodeBase64(body!) : body!,
+        url: entry.request!.url,
+      };
+    });
+};
+
+const fromHtml = (html: string, source: string): HtmlSnapshot => ({
+  source,
+  html,
+  url: findDocumentUrl(html),
+});
+
+export const loadSnapshotFiles = async (files: File[]): Promise<HtmlSnapshot[]> => {
+  const snapshots: HtmlSnapshot[] = [];
+
+  for (const file of files) {
+    const path = file.webkitRelativePath || file.name;
+
+    if (/\.zip$/i.test(file.name)) {
+      const archive = unzipSync(new Uint8Array(await file.arrayBuffer()));
+      for (const [name, content] of Object.entries(archive)) {
+        if (HTML_EXTENSIONS.test(name)) {
+          snapshots.push(fromHtml(strFromU8(content), name));
+        } else if (/\.har$/i.test(name)) {
+          snapshots.push(...parseHar(strFromU8(content), name));
+        }
+      }
+    } else if (/\.har$/i.test(file.name)) {
+      snapshots.push(...parseHar(await file.text(), path));
+    } else if (HTML_EXTENSIONS.test(file.name)) {
+      snapshots.push(fromHtml(await file.text(), path));
+    }
+  }
+
+  return snapshots;
+};
+
+const normalizePath = (path: string): string =>
+  path
+    .toLowerCase()
+    .replace(/\\/g, '/')
+    .replace(HTML_EXTENSIONS, '')
+    .replace(/\/index$/, '')
+    .replace(/^\/+|\/+$/g, '');
+
+const urlKey = (url: string): string | undefined => {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.hostname.replace(/^www\./, '')}/${normalizePath(parsed.pathname)}`.replace(/\/$/, '');
+  } catch {
+    return undefined;
+  }
+};
+
+export const createSnapshotIndex = (snapshots: HtmlSnapshot[]): SnapshotIndex => {
+  const byUrl = new Map<string, HtmlSnapshot>();
+  const byPath: { path: string; snapshot: HtmlSnapshot }[] = [];
+
+  for (const snapshot of snapshots) {
+    const key = snapshot.url ? urlKey(snapshot.url) : undefined;
+    if (key && !byUrl.has(key)) byUrl.set(key, snapshot);
+    byPath.push({ path: normalizePath(snapshot.source), snapshot });
+  }
+
+  const lookup = (url: string): HtmlSnapshot | undefined => {
+    const key = urlKey(url);
+    if (!key) return undefined;
+    if (byUrl.has(key)) return byUrl.get(key);
+
+    // Fall back to the file layout: a saved folder mirrors the host and path, or at least the path.
+    const [host, ...segments] = key.split('/');
+    const path = segments.join('/');
+    const candidates = path ? [`${host}/${path}`, `www.${host}/${path}`, path] : [host, `www.${host}`, 'index'];
+    const matching = (candidate: string) =>
+      byPath.filter(entry => entry.path === candidate || entry.path.endsWith(`/${candidate}`));
+
+    for (const candidate of candidates) {
+      const [match] = matching(candidate);
+      if (match) return match.snapshot;
+    }
+    // A file saved under the last segment alone, e.g. "london-to-leeds.html", says nothing of the section it came
+    // from, such as train or coach times, so it only counts when no other file has that name. A file filed under
+    // another section's folder never does.
+    const slug = segments[segments.length - 1];
+    const bySlug = path ? byPath.filter(entry => entry.path === slug) : [];
+    return bySlug.length === 1 ? bySlug[0].snapshot : undefined;
+  };
+
+  return { size: snapshots.length, lookup };
+};
@@ -0,0 +1,80 @@
+import { EmbeddingProvider, OPENAI_EMBEDDING_MODELS } from '@/lib/embeddings';
+
+export interface BudgetSettings {
+  /** Most a run may spend on embeddings, in US dollars; 0 means no cap. */
+  capUsd: number;
+  /** Used for models missing from the price list, e.g. a custom Azure deployment. */
+  customPricePerMillionTokens: number;
+}
+
+export interface UsageSnapshot {
+  tokens: number;
+  costUsd: number;
+  capUsd: number;
+  /** Set once a request was refused because it would have taken spend past the cap. */
+  capReached: boolean;
+}
+
+export interface UsageMeter {
+  /** Reserves a request's estimated tokens; returns false when they would exceed the cap. */
+  reserve: (estimatedTokens: number) => boolean;
+  /** Swaps a reservation for the tokens the API actually billed. */
+  settle: (estimatedTokens: number, billedTokens: number) => void;
+  /** Drops a reservation for a request that failed and was not billed. */
+  release: (estimatedTokens: number) => void;
+  snapshot: () => UsageSnapshot;
+}
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = {
+  capUsd: 0,
+  customPricePerMillionTokens: 0,
+};
+
+export class BudgetExceededError extends Error {
+  constructor(capUsd: number) {
+    super(`Spend cap of ${formatUsd(capUsd)} reached`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export const formatUsd = (value: number): string =>
+  value > 0 && value < 0.01 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+
+export const listPriceFor = (model: string): number | undefined =>
+  OPENAI_EMBEDDING_MODELS.find(item => item.id === model)?.pricePerMillionTokens;
+
+/** Azure deployments of OpenAI models bill at the same list price; anything else uses the custom price. */
+export const priceForProvider = (provider: Pick<EmbeddingProvider, 'kind' | 'model'>, budget: BudgetSettings): number =>
+  provider.kind === 'demo' ? 0 : listPriceFor(provider.model) ?? budget.customPricePerMillionTokens;
+
+export const costOf = (tokens: number, pricePerMillionTokens: number): number => (tokens / 1_000_000) * pricePerMillionTokens;
+
+/**
+ * Tracks billed tokens for a run. Requests reserve their estimated tokens before they are sent,
+ * so concurrent batches cannot each slip under the cap and overshoot it together.
+ */
+export const createUsageMeter = (pricePerMillionTokens: number, capUsd: number): UsageMeter => {
+  let billed = 0;
+  let reserved = 0;
+  let capReached = false;
+
+  return {
+    reserve: (estimatedTokens) => {
+      if (capReached) return false;
+      if (capUsd > 0 && costOf(billed + reserved + estimatedTokens, pricePerMillionTokens) > capUsd) {
+        capReached = true;
+        return false;
+      }
+      reserved += estimatedTokens;
+      return true;
+    },
+    settle: (estimatedTokens, billedTokens) => {
+      reserved -= estimatedTokens;
+      billed += billedTokens;
+    },
+    release: (estimatedTokens) => {
+      reserved -= estimatedTokens;
+    },
+    snapshot: () => ({ tokens: billed, costUsd: costOf(billed, pricePerMillionTokens), capUsd, capReached }),
+  };
+};
@@ -1,27 +1,161 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { FileUpload } from '@/components/FileUpload';
 import { AnalysisProgress } from '@/components/AnalysisProgress';
 import { AnalysisResults } from '@/components/AnalysisResults';
 import { APIKeyInput } from '@/components/APIKeyInput';
-import { useAnalyzer } from '@/hooks/useAnalyzer';
+import { CostEstimate } from '@/components/CostEstimate';
+import { CsvParseReport } from '@/components/CsvParseReport';
+import { ColumnMapper } from '@/components/ColumnMapper';
+import { ResponseValidationReport } from '@/components/ResponseValidationReport';
+import { SitemapSource } from '@/components/SitemapSource';
+import { PageSourceMode, SnapshotSource } from '@/components/SnapshotSource';
+import { SettingsDialog } from '@/components/SettingsDialog';
+import { CassetteReplay } from '@/components/CassetteReplay';
+import { PromptMatchReview } from '@/components/PromptMatchReview';
+import { AnalysisOptions, useAnalyzer } from '@/hooks/useAnalyzer';
+import { useSettings } from '@/hooks/useSettings';
 import { Button } from '@/components/ui/button';
-import { FileSpreadsheet, Brain, Zap, Upload } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { FileSpreadsheet, Brain, Zap, Upload, Settings } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { CsvParseResult, parseCsv } from '@/lib/csv';
+import { applyColumnMapping, ColumnMapping, suggestColumnMapping } from '@/lib/columnMapping';
+import { parseResponseFile, ResponseImportReport } from '@/lib/gptResponses';
+import { createSnapshotIndex, HtmlSnapshot } from '@/lib/snapshots';
+import { createPageFetcher, createSnapshotFetcher } from '@/lib/fetchers';
+import { createDemoProvider, createEmbeddingProvider, validateEmbeddingSettings } from '@/lib/embeddings';
+import { estimateRun, RunEstimate } from '@/lib/costEstimate';
+import { BudgetExceededError, createUsageMeter, formatUsd, listPriceFor, priceForProvider } from '@/lib/usage';
+import { EMBEDDING_ERROR_POLICIES } from '@/lib/embeddingErrors';
+import { Cassette, createCassettePlayer } from '@/lib/cassette';
+import { createEmbeddingBatcher } from '@/lib/embeddingBatcher';
+import { createEmbeddingCache } from '@/lib/embeddingCache';
+import { createRateLimiter } from '@/lib/scheduler';
+import { matchVariants, PromptMatchResult, variantsForRecord } from '@/lib/promptMatching';
+import { applyPromptRules } from '@/lib/promptRules';
+import { createGazetteer } from '@/lib/gazetteer';
+import { filterSitemapEntries, parsePatternList, SitemapEntry, SitemapLoadResult } from '@/lib/sitemap';
+
+type UrlSource = 'csv' | 'sitemap';
+
+const ESTIMATE_DELAY_MS = 400;
 
 const Index = () => {
+  const [urlSource, setUrlSource] = useState<UrlSource>('csv');
   const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [csvData, setCsvData] = useState<CsvParseResult | null>(null);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>({});
+  const [sitemapResult, setSitemapResult] = useState<SitemapLoadResult | null>(null);
+  const [sitemapInclude, setSitemapInclude] = useState('');
+  const [sitemapExclude, setSitemapExclude] = useState('');
+  const [pageSource, setPageSource] = useState<PageSourceMode>('live');
+  const [snapshots, setSnapshots] = useState<HtmlSnapshot[]>([]);
   const [jsonFile, setJsonFile] = useState<File | null>(null);
+  const [responseReport, setResponseReport] = useState<ResponseImportReport | null>(null);
   const [apiKey, setApiKey] = useState('');
+  const [demoMode, setDemoMode] = useState(false);
+  const [recordCassette, setRecordCassette] = useState(false);
   const [showApiInput, setShowApiInput] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [isMatching, setIsMatching] = useState(false);
+  const [matchReview, setMatchReview] = useState<{ matches: PromptMatchResult[][]; options: Omit<AnalysisOptions, 'matches'> } | null>(null);
   
   const { toast } = useToast();
-  const { isAnalyzing, progress, steps, results, startAnalysis, exportResults } = useAnalyzer();
+  const {
+    isAnalyzing,
+    progress,
+    steps,
+    results,
+    runSummary,
+    usage,
+    runError,
+    errorLog,
+    cassette,
+    startAnalysis,
+    exportResults,
+    exportErrorLog,
+    exportCassette,
+    uncoveredRoutes,
+    exportUncoveredRoutes,
+  } = useAnalyzer();
+  const { settings, updateSettings } = useSettings();
+
+  useEffect(() => {
+    if (!runError) return;
+    const { label, hint } = EMBEDDING_ERROR_POLICIES[runError.kind];
+    toast({
+      title: `Analysis aborted: ${label}`,
+      description: `${hint} (${runError.message})`,
+      variant: "destructive",
+    });
+  }, [runError, toast]);
+
+  const liveFetcher = useMemo(() => createPageFetcher(settings.fetcher), [settings.fetcher]);
+
+  const handleCsvSelect = async (file: File) => {
+    const parsed = parseCsv(await file.text());
+    setCsvFile(file);
+    setCsvData(parsed);
+    setColumnMapping(suggestColumnMapping(parsed));
+  };
+
+  const handleCsvRemove = () => {
+    setCsvFile(null);
+    setCsvData(null);
+    setColumnMapping({});
+  };
+
+  const handleJsonSelect = async (file: File) => {
+    setJsonFile(file);
+    setResponseReport(parseResponseFile(await file.text()));
+  };
+
+  const handleJsonRemove = () => {
+    setJsonFile(null);
+    setResponseReport(null);
+  };
+
+  const csvRecords = useMemo(
+    () => (csvData ? applyColumnMapping(csvData, columnMapping) : []),
+    [csvData, columnMapping]
+  );
+
+  const { sitemapEntries, sitemapFilterError } = useMemo(() => {
+    if (!sitemapResult) return { sitemapEntries: [] as SitemapEntry[] };
+    try {
+      const filter = { include: parsePatternList(sitemapInclude), exclude: parsePatternList(sitemapExclude) };
+      return { sitemapEntries: filterSitemapEntries(sitemapResult.entries, filter) };
+    } catch (error) {
+      return { sitemapEntries: [] as SitemapEntry[], sitemapFilterError: `Invalid pattern: ${(error as Error).message}` };
+    }
+  }, [sitemapResult, sitemapInclude, sitemapExclude]);
+
+  const urlRecords = useMemo(
+    () => (urlSource === 'csv' ? csvRecords : sitemapEntries.map(({ url, lastmod }) => ({ url, lastmod }))),
+    [urlSource, csvRecords, sitemapEntries]
+  );
+
+  const snapshotIndex = useMemo(() => createSnapshotIndex(snapshots), [snapshots]);
+  const snapshotMatches = useMemo(
+    () => urlRecords.filter(record => snapshotIndex.lookup(record.url)).length,
+    [urlRecords, snapshotIndex]
+  );
 
   const handleStartAnalysis = () => {
-    if (!csvFile || !jsonFile) {
+    if (urlRecords.length === 0 || !jsonFile) {
       toast({
         title: "Missing Files",
-        description: "Please upload both CSV and JSON files before starting analysis.",
+        description: "Please provide a URL list and a JSON file before starting analysis.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (pageSource === 'snapshot' && snapshotMatches === 0) {
+      toast({
+        title: "No Matching Snapshots",
+        description: "None of the URLs have an uploaded HTML snapshot.",
         variant: "destructive",
       });
       return;
@@ -29,22 +163,148 @@ const Index = () => {
     setShowApiInput(true);
   };
 
+  const embeddingError = demoMode ? null : validateEmbeddingSettings(settings.embedding, apiKey);
+
+  const gazetteer = useMemo(() => createGazetteer(settings.places), [settings.places]);
+
+  const [estimate, setEstimate] = useState<RunEstimate | null>(null);
+  const maxInputTokens = demoMode ? Number.POSITIVE_INFINITY : settings.embedding.maxInputTokens;
+  const pricePerMillionTokens = priceForProvider(demoMode ? { kind: 'demo', model: '' } : settings.embedding, settings.budget);
+
+  useEffect(() => {
+    if (!showApiInput || !responseReport) return;
+    let cancelled = false;
+    setEstimate(null);
+    // Settings edits arrive a keystroke at a time; the estimate matches every prompt, so wait for a pause.
+    const timer = setTimeout(() => {
+      estimateRun(urlRecords, responseReport.responses, {
+        maxInputTokens,
+        chunking: settings.chunking,
+        extractionRules: settings.extractionRules,
+        promptRules: settings.promptRules,
+        gazetteer,
+        snapshots: pageSource === 'snapshot' ? snapshotIndex : undefined,
+      })
+        .then(result => !cancelled && setEstimate(result))
+        .catch(error => console.warn('Cost estimate failed:', error));
+    }, ESTIMATE_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [showApiInput, urlRecords, responseReport, maxInputTokens, settings.chunking, settings.extractionRules, settings.promptRules, gazetteer, pageSource, snapshotIndex]);
+
   const handleAPISubmit = async () => {
-    if (!apiKey.startsWith('sk-')) {
+    if (embeddingError) {
       toast({
-        title: "Invalid API Key",
-        description: "Please enter a valid OpenAI API key starting with 'sk-'.",
+        title: "Embedding Provider Not Ready",
+        description: embeddingError,
         variant: "destructive",
       });
       return;
     }
 
+    const embedder = demoMode ? createDemoProvider() : createEmbeddingProvider(settings.embedding, apiKey);
+    const budget = demoMode ? { ...settings.budget, capUsd: 0 } : settings.budget;
+    const meter = createUsageMeter(priceForProvider(embedder, budget), budget.capUsd);
+    const options: Omit<AnalysisOptions, 'matches'> = {
+      fetcher: pageSource === 'snapshot' ? createSnapshotFetcher(snapshotIndex) : liveFetcher,
+      embedder,
+      extractionRules: settings.extractionRules,
+      loading: settings.fetcher,
+      throughput: settings.throughput,
+      chunking: settings.chunking,
+      cache: settings.embeddingCache,
+      budget,
+      meter,
+      cassette: recordCassette ? 'record' : undefined,
+      ruleMatches: urlRecords.map(record => applyPromptRules(settings.promptRules, record.url, gazetteer)),
+      gazetteer,
+      competitors: settings.competitors,
+      promptRules: settings.promptRules,
+      places: settings.places,
+    };
+
+    const variants = urlRecords.map(record => variantsForRecord(record, settings.promptRules, gazetteer));
+    setIsMatching(true);
+    let matches: PromptMatchResult[][];
+    try {
+      const batcher = createEmbeddingBatcher(embedder, {
+        concurrency: settings.throughput.embeddingConcurrency,
+        limiter: createRateLimiter(settings.throughput.requestsPerMinute),
+        // Prompt embeddings count towards the run's spend and are cached like the rest.
+        cache: settings.embeddingCache.enabled && embedder.kind !== 'demo' ? createEmbeddingCache(embedder) : undefined,
+        meter,
+      });
+      matches = await matchVariants(variants, responseReport!.responses, { embed: text => batcher.embed(text) });
+    } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        // The run shares the meter, so it would skip every URL; stop here while the cap can still be raised.
+        const { costUsd, capUsd } = meter.snapshot();
+        toast({
+          title: "Spend Cap Used Up by Prompt Matching",
+          description: `Embedding the prompts spent ${formatUsd(costUsd)} of the ${formatUsd(capUsd)} cap, leaving nothing for the pages. Raise the cap and start again.`,
+          variant: "destructive",
+        });
+        return;
+      }
+      // The run itself will report a bad key or quota; matching can still go ahead on wording.
+      console.warn('Semantic prompt matching failed:', error);
+      toast({
+        title: "Matching Prompts by Wording Only",
+        description: `Prompt embeddings failed: ${error instanceof Error ? error.message : String(error)}`,
+      });
+      matches = await matchVariants(variants, responseReport!.responses);
+    } finally {
+      setIsMatching(false);
+    }
+
     setShowApiInput(false);
-    await startAnalysis(csvFile!, jsonFile!, apiKey);
+    if (matches.flat().some(match => match.status === 'review')) {
+      setMatchReview({ matches, options });
+      return;
+    }
+    await startAnalysis(urlRecords, responseReport!.responses, { ...options, matches });
+  };
+
+  const handleMatchesConfirmed = async (matches: PromptMatchResult[][]) => {
+    const { options } = matchReview!;
+    setMatchReview(null);
+    await startAnalysis(urlRecords, responseReport!.responses, { ...options, matches });
   };
 
-  const canStartAnalysis = csvFile && jsonFile && !isAnalyzing;
-  const isAPIKeyValid = apiKey.startsWith('sk-') && apiKey.length > 20;
+  const handleReplay = async (recorded: Cassette) => {
+    const player = createCassettePlayer(recorded);
+    // Older cassettes did not record the rules, places and competitors, so those replay with the current ones.
+    const {
+      promptRules = settings.promptRules,
+      places = settings.places,
+      competitors = settings.competitors,
+      ...recordedSettings
+    } = recorded.settings;
+    const recordedGazetteer = createGazetteer(places);
+    await startAnalysis(recorded.records, recorded.responses, {
+      ...recordedSettings,
+      fetcher: player.fetcher,
+      embedder: player.embedder,
+      // Cassettes from before prompt matching was recorded are matched again on wording.
+      matches: recorded.matches ?? await matchVariants(
+        recorded.records.map(record => variantsForRecord(record, promptRules, recordedGazetteer)),
+        recorded.responses
+      ),
+      ruleMatches: recorded.records.map(record => applyPromptRules(promptRules, record.url, recordedGazetteer)),
+      gazetteer: recordedGazetteer,
+      competitors,
+      promptRules,
+      places,
+      throughput: settings.throughput,
+      cache: settings.embeddingCache,
+      budget: { ...settings.budget, capUsd: 0 },
+      cassette: 'replay',
+    });
+  };
+
+  const canStartAnalysis = urlRecords.length > 0 && jsonFile && responseReport?.responses.length > 0 && !isAnalyzing && !isMatching;
 
   return (
     <div className="min-h-screen bg-gradient-subtle">
@@ -58,6 +318,15 @@ const Index = () => {
             <span className="text-sm font-medium bg-white/20 px-2 py-1 rounded">
               AI-Powered Analysis
             </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="ml-auto gap-2 text-white hover:bg-white/20 hover:text-white"
+              onClick={() => setShowSettings(true)}
+            >
+              <Settings className="h-4 w-4" />
+              Settings
+            </Button>
           </div>
           <h1 className="text-4xl md:text-5xl font-bold mb-4">
             Cosine Similarity Analyser
@@ -79,15 +348,41 @@ const Index = () => {
                   <Upload className="h-5 w-5 text-primary" />
                   <h2 className="text-xl font-semibold">Upload URL List</h2>
                 </div>
-                <FileUpload
-                  onFileSelect={setCsvFile}
-                  accept=".csv"
-                  title="Upload CSV File"
-                  description="Upload a CSV file containing URLs to analyse for GPT response similarity"
-                  icon={<FileSpreadsheet className="h-12 w-12 text-primary" />}
-                  uploadedFile={csvFile}
-                  onRemoveFile={() => setCsvFile(null)}
-                />
+                <Tabs value={urlSource} onValueChange={(value) => setUrlSource(value as UrlSource)}>
+                  <TabsList className="mb-4">
+                    <TabsTrigger value="csv">CSV</TabsTrigger>
+                    <TabsTrigger value="sitemap">Sitemap</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="csv">
+                    <FileUpload
+                      onFileSelect={handleCsvSelect}
+                      accept=".csv"
+                      title="Upload CSV File"
+                      description="Upload a CSV file containing URLs to analyse for GPT response similarity"
+                      icon={<FileSpreadsheet className="h-12 w-12 text-primary" />}
+                      uploadedFile={csvFile}
+                      onRemoveFile={handleCsvRemove}
+                    />
+                    {csvData && (
+                      <div className="mt-4">
+                        <CsvParseReport report={csvData} />
+                      </div>
+                    )}
+                  </TabsContent>
+                  <TabsContent value="sitemap">
+                    <SitemapSource
+                      result={sitemapResult}
+                      onResultChange={setSitemapResult}
+                      include={sitemapInclude}
+                      exclude={sitemapExclude}
+                      onIncludeChange={setSitemapInclude}
+                      onExcludeChange={setSitemapExclude}
+                      matchedEntries={sitemapEntries}
+                      filterError={sitemapFilterError}
+                      fetcher={liveFetcher}
+                    />
+                  </TabsContent>
+                </Tabs>
               </div>
 
               <div>
@@ -96,29 +391,94 @@ const Index = () => {
                   <h2 className="text-xl font-semibold">Upload GPT Responses</h2>
                 </div>
                 <FileUpload
-                  onFileSelect={setJsonFile}
-                  accept=".json"
+                  onFileSelect={handleJsonSelect}
+                  accept=".json,.jsonl,.ndjson"
                   title="Upload JSON File"
-                  description="Upload a JSON file containing GPT responses for similarity analysis"
+                  description="Upload a JSON or JSONL file containing GPT responses for similarity analysis"
                   icon={<Brain className="h-12 w-12 text-primary" />}
                   uploadedFile={jsonFile}
-                  onRemoveFile={() => setJsonFile(null)}
+                  onRemoveFile={handleJsonRemove}
                 />
+                {responseReport && (
+                  <div className="mt-4">
+                    <ResponseValidationReport report={responseReport} />
+                  </div>
+                )}
               </div>
             </div>
 
+            {/* Column Mapping */}
+            {urlSource === 'csv' && csvData && csvData.rows.length > 0 && (
+              <ColumnMapper
+                csv={csvData}
+                mapping={columnMapping}
+                onChange={setColumnMapping}
+                records={csvRecords}
+              />
+            )}
+
+            {/* Page Source */}
+            <SnapshotSource
+              mode={pageSource}
+              onModeChange={setPageSource}
+              snapshots={snapshots}
+              onSnapshotsChange={setSnapshots}
+              matchedCount={snapshotMatches}
+              totalUrls={urlRecords.length}
+            />
+
+            {/* Replay */}
+            <CassetteReplay onReplay={handleReplay} disabled={isAnalyzing} />
+
             {/* API Key Input */}
             {showApiInput && (
               <APIKeyInput
                 value={apiKey}
                 onChange={setApiKey}
+                provider={settings.embedding}
+                onProviderChange={(value) => updateSettings('embedding', value)}
+                demoMode={demoMode}
+                onDemoModeChange={setDemoMode}
                 onSubmit={handleAPISubmit}
-                isValid={isAPIKeyValid}
+                error={embeddingError}
+                busy={isMatching}
+              >
+                <CostEstimate
+                  estimate={estimate}
+                  pricePerMillionTokens={pricePerMillionTokens}
+                  hasListPrice={listPriceFor(settings.embedding.model) !== undefined}
+                  budget={settings.budget}
+                  onBudgetChange={(value) => updateSettings('budget', value)}
+                  demoMode={demoMode}
+                />
+                <div className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+                  <Label htmlFor="record-cassette" className="font-normal">
+                    <span className="font-medium">Record a cassette</span>
+                    <span className="block text-xs text-muted-foreground mt-1">
+                      Save every page and embedding response so this exact run can be replayed later without network access.
+                    </span>
+                  </Label>
+                  <Switch id="record-cassette" checked={recordCassette} onCheckedChange={setRecordCassette} />
+                </div>
+              </APIKeyInput>
+            )}
+
+            {/* Prompt Match Review */}
+            {matchReview && (
+              <PromptMatchReview
+                records={urlRecords}
+                responses={responseReport!.responses}
+                matches={matchReview.matches}
+                onConfirm={handleMatchesConfirmed}
+                onCancel={() => {
+                  setMatchReview(null);
+                  setShowApiInput(true);
+                }}
               />
             )}
 
             {/* Start Analysis Button */}
-            {!showApiInput && (
+            {!showApiInput && !matchReview && (
               <div className="text-center">
                 <Button
                   onClick={handleStartAnalysis}
@@ -129,9 +489,9 @@ const Index = () => {
                   <Zap className="h-5 w-5" />
                   {canStartAnalysis ? 'Start Analysis' : 'Upload Files to Continue'}
                 </Button>
-                {csvFile && jsonFile && (
+                {urlRecords.length > 0 && jsonFile && (
                   <p className="text-sm text-muted-foreground mt-2">
-                    {csvFile.name} & {jsonFile.name} ready for analysis
+                    {urlRecords.length} URLs & {jsonFile.name} ready for analysis
                   </p>
                 )}
               </div>
@@ -145,22 +505,34 @@ const Index = () => {
           currentStep=""
           progress={progress}
           isAnalyzing={isAnalyzing}
+          usage={usage}
         />
 
         {/* Results */}
         <AnalysisResults
           results={results}
+          runSummary={runSummary}
+          usage={usage}
+          runError={runError}
+          errorLogSize={errorLog.length}
           onExportCSV={exportResults}
+          onExportErrorLog={exportErrorLog}
+          onExportCassette={cassette ? exportCassette : undefined}
+          uncoveredRoutes={uncoveredRoutes}
+          onExportUncoveredRoutes={exportUncoveredRoutes}
         />
 
         {/* Reset Button */}
-        {(results.length > 0 || isAnalyzing) && (
+        {(results.length > 0 || isAnalyzing || runError) && (
           <div className="text-center">
             <Button
               variant="outline"
               onClick={() => {
                 setCsvFile(null);
+                setCsvData(null);
+                setColumnMapping({});
                 setJsonFile(null);
+                setResponseReport(null);
                 setApiKey('');
                 setShowApiInput(false);
                 window.location.reload();
@@ -172,6 +544,14 @@ const Index = () => {
           </div>
         )}
       </div>
+
+      <SettingsDialog
+        open={showSettings}
+        onOpenChange={setShowSettings}
+        settings={settings}
+        onUpdate={updateSettings}
+        fetcher={liveFetcher}
+      />
     </div>
   );
 };
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Base URL for the OpenAI embedding provider; defaults to https://api.openai.com/v1. */
+  readonly VITE_OPENAI_BASE_URL?: string;
+}